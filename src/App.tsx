@@ -1,44 +1,48 @@
 // frontend/src/App.tsx
-import React, { useEffect, useMemo, useRef, useState } from "react";
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { createPortal } from "react-dom";
 import "./App.css";
-import MapView, { MapApi, Task as MapTask } from "./MapView";
+import MapView, {
+  MapApi,
+  Task as MapTask,
+  type CenterNode,
+  type TaskAttachment,
+} from "./MapView";
 import AboutView from "./views/AboutView";
+import TimelineView from "./views/TimelineView";
+import BoardView from "./views/BoardView";
+import TableView from "./views/TableView";
 import { Analytics } from "@vercel/analytics/react";
+import { computeDueState } from "./taskDates";
+import { collectSubtreeIds, isDescendant } from "./taskTree";
+import { collectTags } from "./taskTags";
+import TagEditor from "./TagEditor";
+import MembersPanel from "./MembersPanel";
+import { unassignMember, type Member } from "./members";
+import { DEFAULT_PROGRESS_MODE, type ProgressMode } from "./taskProgress";
+import { DEFAULT_LAYOUT_MODE, isLayoutMode, LAYOUT_MODES, type LayoutMode } from "./mapLayout";
+import { ANGLE_STEPS, DEFAULT_SNAP, GRID_SIZES, RADIAL_STEPS, type SnapSettings } from "./mapSnap";
+import { removeLinksFor, type TaskLink } from "./taskLinks";
+import { removePredecessorsFor } from "./taskSchedule";
+import { useHistory } from "./useHistory";
+import {
+  clearSession,
+  hydrateSession,
+  markSessionSaved,
+  readSession,
+  writeSession,
+} from "./autosave";
+import { DEFAULT_STATUS_COLUMNS, type StatusColumn } from "./taskStatus";
+import {
+  INNOCENT_CENTER_COLOR,
+  parseSavedState,
+  serializeState,
+  type SavedState,
+} from "./saveFormat";
+import LoadErrorReport from "./LoadErrorReport";
 
 type Task = MapTask;
 
-// ✅ gleiche Shape wie in MapView/PdfPreviewOverlay
-type TaskAttachment = {
-  id: string;
-  name: string;
-  mime: string;
-  dataUrl: string;
-};
-
-type SavedState = {
-  v: 1;
-  projectTitle: string;
-  tasks: Task[];
-  nodeOffset: Record<string, { x: number; y: number }>;
-  pan: { x: number; y: number };
-  scale: number;
-  ts: number;
-  branchColorOverride?: Record<string, string>;
-  centerColor?: string;
-
-  // ✅ NEU: Edge-Farben persistieren (Linien-Overrides)
-  branchEdgeColorOverride?: Record<string, string>;
-  edgeColorOverride?: Record<string, string>;
-
-  // ✅ NEU: Center-Node Attachments persistieren
-  centerAttachments?: TaskAttachment[];
-
-  // ✅ NEU: damit der “unschuldige” Start-Look nur gilt,
-  // solange der User den Center nicht bewusst eingefärbt hat
-  centerColorCustomized?: boolean;
-};
-
 const makeId = () => Math.random().toString(36).slice(2, 9);
 
 const slugifyTitle = (t: string) =>
@@ -66,58 +70,15 @@ function downloadJSON(filename: string, data: unknown) {
   URL.revokeObjectURL(url);
 }
 
-// ✅ “Innocent start” Default (clean statt schwarz)
-const INNOCENT_CENTER_COLOR = "#ffffff";
-
-const serializeState = (
-  projectTitle: string,
-  tasks: Task[],
-  nodeOffset: Record<string, { x: number; y: number }>,
-  pan: { x: number; y: number },
-  scale: number,
-  branchColorOverride: Record<string, string>,
-  centerColor: string,
-  // ✅ NEU: Edge overrides
-  branchEdgeColorOverride: Record<string, string>,
-  edgeColorOverride: Record<string, string>,
-  centerAttachments: TaskAttachment[],
-  centerColorCustomized: boolean
-): SavedState => ({
-  v: 1,
-  projectTitle,
-  tasks,
-  nodeOffset,
-  pan,
-  scale,
-  ts: Date.now(),
-  branchColorOverride,
-  centerColor,
-
-  // ✅ NEU: Edge overrides
-  branchEdgeColorOverride,
-  edgeColorOverride,
-
-  centerAttachments,
-  centerColorCustomized,
-});
-
-function isDescendant(
-  tasks: Task[],
-  possibleDescendant: string,
-  possibleAncestor: string
-) {
-  let cur = tasks.find((t) => t.id === possibleDescendant);
-  while (cur && cur.parentId) {
-    if (cur.parentId === possibleAncestor) return true;
-    cur = tasks.find((t) => t.id === cur!.parentId);
-  }
-  return false;
-}
+// Autosave: so lange Ruhe, bevor der Stand in IndexedDB geschrieben wird
+const AUTOSAVE_DEBOUNCE_MS = 1000;
 
 export default function App() {
   const [projectTitle, setProjectTitle] = useState("");
   const [tasks, setTasks] = useState<Task[]>([]);
-  const [view, setView] = useState<"edit" | "map" | "about">("edit");
+  const [view, setView] = useState<
+    "edit" | "map" | "timeline" | "board" | "table" | "about"
+  >("edit");
 
   // iPhone-only fix: render dropdown menus via portal (avoid iOS Safari fixed-in-scrollcontainer bug)
   const isIPhone = useMemo(() => {
@@ -171,6 +132,138 @@ export default function App() {
     []
   );
 
+  // ✅ NEU: Board-Spalten (Status), werden mit gespeichert
+  const [statusColumns, setStatusColumns] = useState<StatusColumn[]>(
+    DEFAULT_STATUS_COLUMNS
+  );
+
+  // ✅ NEU: Center-Node Done/Dates (vorher lokal in MapView -> ging bei Save/Open verloren)
+  const [center, setCenter] = useState<CenterNode>({});
+
+  // ✅ NEU: Tags – Farben pro Tag + "Bubble-Farben aus Tags" (pro Map gespeichert)
+  const [tagColors, setTagColors] = useState<Record<string, string>>({});
+  const [colorByTags, setColorByTags] = useState(false);
+  const allTags = useMemo(() => collectTags(tasks), [tasks]);
+
+  // ✅ NEU: Team – Mitglieder (Name/Initialen/Farbe), Task.assigneeId verweist darauf
+  const [members, setMembers] = useState<Member[]>([]);
+
+  // ✅ NEU: Progress-Roll-up (alle Tasks / nur Blätter), pro Map gespeichert
+  const [progressMode, setProgressMode] = useState<ProgressMode>(DEFAULT_PROGRESS_MODE);
+  const [showProgressRings, setShowProgressRings] = useState(true);
+
+  // ✅ NEU: Done-Roll-up nach oben (pro Map), explizite Werte gewinnen weiterhin
+  const [doneRollup, setDoneRollup] = useState(false);
+
+  // ✅ NEU: Querverbindungen zwischen Tasks (blocks / depends on / relates to)
+  const [links, setLinks] = useState<TaskLink[]>([]);
+
+  // ✅ NEU: Layout-Strategie pro Map (Render + Export nutzen dieselben Positionen)
+  const [layoutMode, setLayoutMode] = useState<LayoutMode>(DEFAULT_LAYOUT_MODE);
+  const [autoTidy, setAutoTidy] = useState(false);
+
+  // ✅ NEU: Einrasten beim Ziehen (Winkel, Abstand, Raster, Hilfslinien) – pro Map
+  const [snap, setSnap] = useState<SnapSettings>(DEFAULT_SNAP);
+  const [snapOpen, setSnapOpen] = useState(false);
+  const patchSnap = (patch: Partial<SnapSettings>) => setSnap((prev) => ({ ...prev, ...patch }));
+
+  // ✅ NEU: Undo/Redo über alle Dokument-States (pan/scale gehören nicht dazu)
+  const historyDoc = useMemo(
+    () => ({
+      projectTitle,
+      tasks,
+      nodeOffset,
+      branchColorOverride,
+      branchEdgeColorOverride,
+      edgeColorOverride,
+      centerColorRaw,
+      centerColorCustomized,
+      centerAttachments,
+      statusColumns,
+      center,
+      tagColors,
+      colorByTags,
+      members,
+      progressMode,
+      showProgressRings,
+      doneRollup,
+      links,
+      layoutMode,
+      autoTidy,
+      snap,
+    }),
+    [
+      projectTitle,
+      tasks,
+      nodeOffset,
+      branchColorOverride,
+      branchEdgeColorOverride,
+      edgeColorOverride,
+      centerColorRaw,
+      centerColorCustomized,
+      centerAttachments,
+      statusColumns,
+      center,
+      tagColors,
+      colorByTags,
+      members,
+      progressMode,
+      showProgressRings,
+      doneRollup,
+      links,
+      layoutMode,
+      autoTidy,
+      snap,
+    ]
+  );
+  const { undo, redo, reset: resetHistory, canUndo, canRedo } = useHistory(
+    historyDoc,
+    (d) => {
+      setProjectTitle(d.projectTitle);
+      setTasks(d.tasks);
+      setNodeOffset(d.nodeOffset);
+      setBranchColorOverride(d.branchColorOverride);
+      setBranchEdgeColorOverride(d.branchEdgeColorOverride);
+      setEdgeColorOverride(d.edgeColorOverride);
+      setCenterColorRaw(d.centerColorRaw);
+      setCenterColorCustomized(d.centerColorCustomized);
+      setCenterAttachments(d.centerAttachments);
+      setStatusColumns(d.statusColumns);
+      setCenter(d.center);
+      setTagColors(d.tagColors);
+      setColorByTags(d.colorByTags);
+      setMembers(d.members);
+      setProgressMode(d.progressMode);
+      setShowProgressRings(d.showProgressRings);
+      setDoneRollup(d.doneRollup);
+      setLinks(d.links);
+      setLayoutMode(d.layoutMode);
+      setAutoTidy(d.autoTidy);
+      setSnap(d.snap);
+    }
+  );
+
+  // Ctrl/Cmd+Z = Undo, Shift+Ctrl/Cmd+Z (oder Ctrl+Y) = Redo
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      // Textfelder behalten ihr eigenes Undo
+      const el = e.target as HTMLElement | null;
+      if (el?.closest?.("input, textarea, select, [contenteditable='true']") || el?.isContentEditable)
+        return;
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === "z" && e.shiftKey) || key === "y") {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [undo, redo]);
+
   // Remove-Modus (gemeinsam für Edit + Visualize)
   const [removeMode, setRemoveMode] = useState(false);
   const [removeTargets, setRemoveTargets] = useState<Set<string>>(
@@ -196,18 +289,37 @@ export default function App() {
   const renameTask = (id: string, title: string) =>
     setTasks((prev) => prev.map((t) => (t.id === id ? { ...t, title } : t)));
 
-  const collectSubtreeIds = (list: Task[], rootId: string) => {
-    const out = new Set<string>([rootId]);
-    const q = [rootId];
-    while (q.length) {
-      const cur = q.shift()!;
-      for (const t of list)
-        if (t.parentId === cur && !out.has(t.id)) {
-          out.add(t.id);
-          q.push(t.id);
-        }
+  const setTaskTags = (id: string, tags: string[]) =>
+    setTasks((prev) =>
+      prev.map((t) => (t.id === id ? { ...t, tags: tags.length ? tags : undefined } : t))
+    );
+
+  const setTaskEstimate = (id: string, value: string) => {
+    const n = value === "" ? undefined : Number(value);
+    if (n !== undefined && !(Number.isFinite(n) && n >= 0)) return;
+    setTasks((prev) => prev.map((t) => (t.id === id ? { ...t, estimate: n } : t)));
+  };
+
+  const setTaskDate = (
+    id: string,
+    key: "startDate" | "dueDate",
+    value: string
+  ) =>
+    setTasks((prev) =>
+      prev.map((t) => (t.id === id ? { ...t, [key]: value || undefined } : t))
+    );
+
+  // Offsets sind relativ zum Layout: beim Wechsel optional verwerfen
+  const changeLayoutMode = (v: string) => {
+    if (!isLayoutMode(v) || v === layoutMode) return;
+    if (
+      Object.keys(nodeOffset).length > 0 &&
+      confirm("Also reset manually moved nodes to the new layout?")
+    ) {
+      setNodeOffset({});
+      setTasks((prev) => prev.map((t) => (t.placed ? { ...t, placed: undefined } : t)));
     }
-    return out;
+    setLayoutMode(v);
   };
 
   // --- Remove-Logik (Edit + Map gemeinsam) ---
@@ -240,21 +352,28 @@ export default function App() {
     }
 
     // 3. Im Remove-Modus + Auswahl → markierte Tasks (inkl. Subtrees) löschen
-    setTasks((prev) => {
-      if (prev.length === 0) return prev;
-
-      const idsToDelete = new Set<string>();
-
-      removeTargets.forEach((id) => {
-        const subtree = collectSubtreeIds(prev, id);
-        subtree.forEach((tid) => idsToDelete.add(tid));
-      });
+    deleteTasks(removeTargets);
+    clearRemoveMode();
+  };
 
-      if (idsToDelete.size === 0) return prev;
-      return prev.filter((t) => !idsToDelete.has(t.id));
+  // Tasks inkl. Subtrees löschen (Remove-Modus + Map-Auswahl)
+  const deleteTasks = (ids: Set<string>) => {
+    const idsToDelete = new Set<string>();
+    ids.forEach((id) => {
+      const subtree = collectSubtreeIds(tasks, id);
+      subtree.forEach((tid) => idsToDelete.add(tid));
     });
+    if (idsToDelete.size === 0) return;
 
-    clearRemoveMode();
+    // Vorgänger-Verweise auf gelöschte Tasks mit entfernen
+    setTasks((prev) =>
+      removePredecessorsFor(
+        prev.filter((t) => !idsToDelete.has(t.id)),
+        idsToDelete
+      )
+    );
+    // Links zu gelöschten Tasks mit entfernen
+    setLinks((prev) => removeLinksFor(prev, idsToDelete));
   };
 
   // Wenn die View gewechselt wird, Remove-Modus verlassen
@@ -269,6 +388,21 @@ export default function App() {
     setView("map");
   };
 
+  const openTimeline = () => {
+    clearRemoveMode();
+    setView("timeline");
+  };
+
+  const openBoard = () => {
+    clearRemoveMode();
+    setView("board");
+  };
+
+  const openTable = () => {
+    clearRemoveMode();
+    setView("table");
+  };
+
   const openAbout = () => {
     clearRemoveMode();
     setView("about");
@@ -396,26 +530,64 @@ export default function App() {
   const toggleSaveMenu = () =>
     setSaveOpen((prev) => (prev ? false : (openSaveMenu(), true)));
 
+  // Team-Dropdown (gleiches Muster wie Save-Menü)
+  const [teamOpen, setTeamOpen] = useState(false);
+  const teamBtnRef = useRef<HTMLButtonElement | null>(null);
+  const [teamPos, setTeamPos] = useState<{ top: number; left: number } | null>(
+    null
+  );
+
+  const openTeamMenu = () => {
+    const r = teamBtnRef.current?.getBoundingClientRect();
+    if (!r) return setTeamOpen((v) => !v);
+    setTeamPos({ top: r.bottom + 6, left: r.right });
+    setTeamOpen(true);
+  };
+  const toggleTeamMenu = () =>
+    setTeamOpen((prev) => (prev ? false : (openTeamMenu(), true)));
+
+  const removeMember = (id: string) => {
+    setMembers((prev) => prev.filter((m) => m.id !== id));
+    setTasks((prev) => unassignMember(prev, id));
+  };
+
+  const assignedCount = (id: string) =>
+    tasks.filter((t) => t.assigneeId === id).length;
+
   const [fileHandle, setFileHandle] = useState<FileSystemFileHandle | null>(
     null
   );
 
-  const doSave = async () => {
-    setSaveOpen(false);
-    const state = serializeState(
+  const buildSavedState = () =>
+    serializeState({
       projectTitle,
       tasks,
       nodeOffset,
       pan,
       scale,
       branchColorOverride,
-      centerColorRaw,
-      // ✅ NEU: Edge overrides
+      centerColor: centerColorRaw,
       branchEdgeColorOverride,
       edgeColorOverride,
       centerAttachments,
-      centerColorCustomized
-    );
+      centerColorCustomized,
+      statusColumns,
+      center,
+      tagColors,
+      colorByTags,
+      members,
+      progressMode,
+      showProgressRings,
+      doneRollup,
+      links,
+      layoutMode,
+      autoTidy,
+      snap,
+    });
+
+  const doSave = async () => {
+    setSaveOpen(false);
+    const state = buildSavedState();
     try {
       if (fileHandle && "createWritable" in fileHandle) {
         const writable = await (fileHandle as any).createWritable();
@@ -425,28 +597,17 @@ export default function App() {
           })
         );
         await writable.close();
+        markSaved();
         return;
       }
     } catch {}
     downloadJSON(buildFileName(projectTitle), state);
+    markSaved();
   };
 
   const doSaveAs = async () => {
     setSaveOpen(false);
-    const state = serializeState(
-      projectTitle,
-      tasks,
-      nodeOffset,
-      pan,
-      scale,
-      branchColorOverride,
-      centerColorRaw,
-      // ✅ NEU: Edge overrides
-      branchEdgeColorOverride,
-      edgeColorOverride,
-      centerAttachments,
-      centerColorCustomized
-    );
+    const state = buildSavedState();
     try {
       if ("showSaveFilePicker" in window) {
         const handle = await (window as any).showSaveFilePicker({
@@ -468,6 +629,7 @@ export default function App() {
           })
         );
         await w.close();
+        markSaved();
         return;
       }
     } catch (e: any) {
@@ -475,56 +637,68 @@ export default function App() {
     }
     downloadJSON(buildFileName(projectTitle), state);
     setFileHandle(null);
+    markSaved();
   };
 
-  function loadFromJSON(data: any) {
-    const obj = data as Partial<SavedState>;
-    if (!obj || typeof obj !== "object" || !Array.isArray(obj.tasks)) {
-      alert("Could not open file. Is this a valid .taskmap.json?");
-      return;
-    }
+  // ✅ NEU: Schema-Validierung + Migration; Fehler als Report statt alert
+  const [loadErrors, setLoadErrors] = useState<{
+    fileName: string | null;
+    errors: string[];
+  } | null>(null);
 
-    setProjectTitle(String(obj.projectTitle ?? "Project"));
-    setTasks(obj.tasks as Task[]);
-    setPan(obj.pan ?? { x: 0, y: 0 });
-    setScale(typeof obj.scale === "number" ? obj.scale : 1);
-    setNodeOffset(obj.nodeOffset ?? {});
-    setBranchColorOverride(obj.branchColorOverride ?? {});
-
-    // ✅ NEU (backwards compatible): Edge overrides
-    setBranchEdgeColorOverride(obj.branchEdgeColorOverride ?? {});
-    setEdgeColorOverride(obj.edgeColorOverride ?? {});
-
-    // ✅ Backwards compatible:
-    // - alte Files: centerColor fehlt ODER war default "#020617" -> jetzt “unschuldig” weiß
-    const loadedCenterColor =
-      typeof obj.centerColor === "string" ? obj.centerColor : "";
-    const norm = loadedCenterColor.trim().toLowerCase();
-    const isOldDefaultBlack = norm === "#020617";
-    const nextCenterColor =
-      !norm || isOldDefaultBlack ? INNOCENT_CENTER_COLOR : loadedCenterColor;
-
-    setCenterColorRaw(nextCenterColor);
-
-    // ✅ customized-Flag:
-    // - wenn Datei es enthält: respektieren
-    // - sonst: nur dann als customized werten, wenn Center wirklich nicht “default” ist
-    if (typeof obj.centerColorCustomized === "boolean") {
-      setCenterColorCustomized(obj.centerColorCustomized);
-    } else {
-      const n2 = nextCenterColor.trim().toLowerCase();
-      setCenterColorCustomized(!(n2 === INNOCENT_CENTER_COLOR.toLowerCase()));
+  function loadFromJSON(data: unknown, fileName: string | null = null): boolean {
+    const res = parseSavedState(data);
+    if (!res.ok) {
+      setLoadErrors({ fileName, errors: res.errors });
+      return false;
     }
-
-    // ✅ NEU (backwards compatible): alte Files haben das Feld nicht
-    setCenterAttachments(
-      Array.isArray(obj.centerAttachments) ? (obj.centerAttachments as any) : []
-    );
-
+    const obj = res.state;
+
+    setProjectTitle(obj.projectTitle);
+    setTasks(obj.tasks);
+    setPan(obj.pan);
+    setScale(obj.scale);
+    setNodeOffset(obj.nodeOffset);
+    setBranchColorOverride(obj.branchColorOverride);
+    setBranchEdgeColorOverride(obj.branchEdgeColorOverride);
+    setEdgeColorOverride(obj.edgeColorOverride);
+    setCenterColorRaw(obj.centerColor);
+    setCenterColorCustomized(obj.centerColorCustomized);
+    setStatusColumns(obj.statusColumns);
+    setCenter(obj.center);
+    setTagColors(obj.tagColors);
+    setColorByTags(obj.colorByTags);
+    setMembers(obj.members);
+    setProgressMode(obj.progressMode);
+    setShowProgressRings(obj.showProgressRings);
+    setDoneRollup(obj.doneRollup);
+    setLinks(obj.links);
+    setLayoutMode(obj.layoutMode);
+    setAutoTidy(obj.autoTidy);
+    setSnap(obj.snap);
+    setCenterAttachments(obj.centerAttachments);
+
+    resetHistory();
+    loadedCleanRef.current = true;
     clearRemoveMode();
     setView("map");
+    return true;
   }
 
+  const closeLoadErrors = useCallback(() => setLoadErrors(null), []);
+
+  // JSON.parse-Fehler landen im selben Report
+  const loadFromText = (text: string, fileName: string | null) => {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch (e: any) {
+      setLoadErrors({ fileName, errors: [`Not valid JSON: ${e?.message ?? e}`] });
+      return false;
+    }
+    return loadFromJSON(data, fileName);
+  };
+
   const doOpen = async () => {
     try {
       if ("showOpenFilePicker" in window) {
@@ -541,8 +715,8 @@ export default function App() {
           excludeAcceptAllOption: true,
         });
         const file = await handle.getFile();
-        loadFromJSON(JSON.parse(await file.text()));
-        setFileHandle(handle as FileSystemFileHandle);
+        if (loadFromText(await file.text(), file.name))
+          setFileHandle(handle as FileSystemFileHandle);
         return;
       }
     } catch (e: any) {
@@ -555,18 +729,74 @@ export default function App() {
       const f = ev.target.files?.[0];
       if (!f) return;
       const reader = new FileReader();
-      reader.onload = () => {
-        try {
-          loadFromJSON(JSON.parse(String(reader.result)));
-        } catch {
-          alert("Could not open file.");
-        }
-      };
+      reader.onload = () => loadFromText(String(reader.result), f.name);
       reader.readAsText(f);
     };
     input.click();
   };
 
+  // ✅ NEU: Autosave in IndexedDB + Restore-Angebot beim Start
+  const [restoreOffer, setRestoreOffer] = useState<SavedState | null>(null);
+  const autosaveReadyRef = useRef(false); // erst nach Restore-Entscheidung schreiben
+  const dirtyRef = useRef(false); // Änderungen seit letztem Save/Open
+  const loadedCleanRef = useRef(false); // nächste Doc-Änderung stammt aus Open -> nicht dirty
+
+  function markSaved() {
+    dirtyRef.current = false;
+    markSessionSaved().catch(() => {});
+  }
+
+  useEffect(() => {
+    readSession<SavedState>()
+      .then((rec) => {
+        const s = rec?.state;
+        if (rec?.dirty && s && (s.tasks.length > 0 || s.projectTitle)) setRestoreOffer(s);
+        else autosaveReadyRef.current = true;
+      })
+      .catch(() => {
+        autosaveReadyRef.current = true;
+      });
+  }, []);
+
+  const lastDocRef = useRef(historyDoc);
+  useEffect(() => {
+    if (lastDocRef.current === historyDoc) return;
+    lastDocRef.current = historyDoc;
+    if (loadedCleanRef.current) loadedCleanRef.current = false;
+    else dirtyRef.current = true;
+  }, [historyDoc]);
+
+  useEffect(() => {
+    if (!autosaveReadyRef.current) return;
+    const t = window.setTimeout(() => {
+      const state = buildSavedState();
+      writeSession(state, dirtyRef.current).catch(() => {});
+    }, AUTOSAVE_DEBOUNCE_MS);
+    return () => window.clearTimeout(t);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [historyDoc, pan, scale]);
+
+  const restoreSession = async () => {
+    if (!restoreOffer) return;
+    try {
+      if (loadFromJSON(await hydrateSession(restoreOffer), "last session")) {
+        // wiederhergestellt heißt weiterhin "nicht gespeichert"
+        loadedCleanRef.current = false;
+        dirtyRef.current = true;
+      }
+    } catch {
+      alert("Could not restore the last session.");
+    }
+    autosaveReadyRef.current = true;
+    setRestoreOffer(null);
+  };
+
+  const discardSession = () => {
+    clearSession().catch(() => {});
+    autosaveReadyRef.current = true;
+    setRestoreOffer(null);
+  };
+
   // Download dropdown -> MapView API
   const [downloadOpen, setDownloadOpen] = useState(false);
   const downloadBtnRef = useRef<HTMLButtonElement | null>(null);
@@ -608,6 +838,22 @@ export default function App() {
       </div>
     ) : null;
 
+  const teamMenu =
+    teamOpen && teamPos ? (
+      <MembersPanel
+        members={members}
+        setMembers={setMembers}
+        onRemoveMember={removeMember}
+        assignedCount={assignedCount}
+        style={{
+          top: teamPos.top,
+          left: teamPos.left,
+          transform: "translateX(-100%)",
+        }}
+        onClose={() => setTeamOpen(false)}
+      />
+    ) : null;
+
   const downloadMenu =
     downloadOpen && downloadPos ? (
       <div
@@ -665,6 +911,25 @@ export default function App() {
             {removeMode ? "Removing" : "Remove Task"}
           </button>
 
+          <button
+            className="view-btn"
+            onClick={undo}
+            disabled={!canUndo}
+            title="Undo (Ctrl/Cmd+Z)"
+            aria-label="Undo"
+          >
+            ↶
+          </button>
+          <button
+            className="view-btn"
+            onClick={redo}
+            disabled={!canRedo}
+            title="Redo (Shift+Ctrl/Cmd+Z)"
+            aria-label="Redo"
+          >
+            ↷
+          </button>
+
           <button
             className={view === "edit" ? "view-btn active" : "view-btn"}
             onClick={switchToEdit}
@@ -679,6 +944,42 @@ export default function App() {
             Visualize
           </button>
 
+          <button
+            className={view === "timeline" ? "view-btn active" : "view-btn"}
+            onClick={openTimeline}
+          >
+            Timeline
+          </button>
+
+          <button
+            className={view === "board" ? "view-btn active" : "view-btn"}
+            onClick={openBoard}
+          >
+            Board
+          </button>
+
+          <button
+            className={view === "table" ? "view-btn active" : "view-btn"}
+            onClick={openTable}
+          >
+            Table
+          </button>
+
+          <div className="save-wrap">
+            <button
+              ref={teamBtnRef}
+              className={teamOpen ? "view-btn active" : "view-btn"}
+              onClick={toggleTeamMenu}
+            >
+              Team
+            </button>
+            {isIPhone
+              ? teamMenu
+                ? createPortal(teamMenu, document.body)
+                : null
+              : teamMenu}
+          </div>
+
           <div className="save-wrap">
             <button ref={saveBtnRef} className="btn btn-save" onClick={toggleSaveMenu}>
               Save
@@ -714,14 +1015,153 @@ export default function App() {
         </div>
       </header>
 
+      {restoreOffer && (
+        <div className="restore-banner" role="alertdialog" data-nosnippet>
+          <span className="restore-banner-text">
+            Unsaved session found: <b>{restoreOffer.projectTitle || "Untitled"}</b>
+            {" · "}
+            {restoreOffer.tasks.length} task{restoreOffer.tasks.length === 1 ? "" : "s"}
+            {" · "}
+            {new Date(restoreOffer.ts).toLocaleString()}
+          </span>
+          <button className="view-btn" onClick={restoreSession}>
+            Restore
+          </button>
+          <button className="view-btn" onClick={discardSession}>
+            Discard
+          </button>
+        </div>
+      )}
+
       {view === "map" && (
-        <button
-          className="center-btn"
-          onClick={() => mapRef.current?.resetView()}
-          aria-label="Center"
-        >
-          Center
-        </button>
+        <div className="map-toolbar">
+          <button
+            className="center-btn"
+            onClick={() => mapRef.current?.resetView()}
+            aria-label="Center"
+          >
+            Center
+          </button>
+          <button
+            className="center-btn"
+            onClick={() => mapRef.current?.fitMap()}
+            title="Fit whole map (Shift+1) · selection (Shift+2) · subtree under pointer (Shift+3)"
+          >
+            Fit
+          </button>
+          <select
+            className="map-depth-select"
+            value=""
+            onChange={(e) => {
+              const v = e.target.value;
+              if (v) mapRef.current?.expandToDepth(v === "all" ? null : Number(v));
+            }}
+            aria-label="Expand to depth"
+          >
+            <option value="">Expand…</option>
+            <option value="all">Expand all</option>
+            {[1, 2, 3, 4].map((d) => (
+              <option key={d} value={d}>
+                Show {d} level{d > 1 ? "s" : ""}
+              </option>
+            ))}
+          </select>
+          <select
+            className="map-depth-select"
+            value={layoutMode}
+            onChange={(e) => changeLayoutMode(e.target.value)}
+            aria-label="Layout"
+            title="Layout"
+          >
+            {LAYOUT_MODES.map((m) => (
+              <option key={m.id} value={m.id}>
+                {m.label}
+              </option>
+            ))}
+          </select>
+          <button
+            className="center-btn"
+            onClick={() => mapRef.current?.tidyUp()}
+            title="Push overlapping bubbles apart (manually moved nodes stay put)"
+          >
+            Tidy up
+          </button>
+          <label className="map-toolbar-toggle" title="Keep bubbles overlap-free while editing">
+            <input
+              type="checkbox"
+              checked={autoTidy}
+              onChange={(e) => setAutoTidy(e.target.checked)}
+            />
+            Auto
+          </label>
+          <div className="snap-anchor" onMouseLeave={() => setSnapOpen(false)}>
+            <button
+              className="center-btn"
+              onClick={() => setSnapOpen((v) => !v)}
+              title="Snapping while dragging"
+            >
+              Snap…
+            </button>
+            {snapOpen && (
+              <div className="snap-panel" role="menu">
+                <label>
+                  Angle
+                  <select
+                    value={snap.angleStep}
+                    onChange={(e) => patchSnap({ angleStep: Number(e.target.value) })}
+                  >
+                    {ANGLE_STEPS.map((v) => (
+                      <option key={v} value={v}>
+                        {v ? `${v}°` : "Off"}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label>
+                  Distance
+                  <select
+                    value={snap.radialStep}
+                    onChange={(e) => patchSnap({ radialStep: Number(e.target.value) })}
+                  >
+                    {RADIAL_STEPS.map((v) => (
+                      <option key={v} value={v}>
+                        {v ? `${v}px` : "Off"}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label>
+                  <input
+                    type="checkbox"
+                    checked={snap.grid}
+                    onChange={(e) => patchSnap({ grid: e.target.checked })}
+                  />
+                  Grid
+                  <select
+                    value={snap.gridSize}
+                    disabled={!snap.grid}
+                    onChange={(e) => patchSnap({ gridSize: Number(e.target.value) })}
+                  >
+                    {GRID_SIZES.map((v) => (
+                      <option key={v} value={v}>
+                        {v}px
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label>
+                  <input
+                    type="checkbox"
+                    checked={snap.guides}
+                    onChange={(e) => patchSnap({ guides: e.target.checked })}
+                  />
+                  Align to siblings
+                </label>
+                <div className="snap-hint">Hold Alt to drag freely</div>
+              </div>
+            )}
+          </div>
+        </div>
       )}
 
       <div className="body">
@@ -745,11 +1185,31 @@ export default function App() {
             // ✅ Center Attachments
             centerAttachments={centerAttachments}
             setCenterAttachments={setCenterAttachments}
+            statusColumns={statusColumns}
+            center={center}
+            setCenter={setCenter}
+            tagColors={tagColors}
+            setTagColors={setTagColors}
+            colorByTags={colorByTags}
+            setColorByTags={setColorByTags}
+            members={members}
+            progressMode={progressMode}
+            setProgressMode={setProgressMode}
+            showProgressRings={showProgressRings}
+            setShowProgressRings={setShowProgressRings}
+            doneRollup={doneRollup}
+            setDoneRollup={setDoneRollup}
+            links={links}
+            setLinks={setLinks}
+            layoutMode={layoutMode}
+            autoTidy={autoTidy}
+            snap={snap}
             // ✅ NEU: Edge overrides (Linienfarben)
             branchEdgeColorOverride={branchEdgeColorOverride}
             setBranchEdgeColorOverride={setBranchEdgeColorOverride}
             edgeColorOverride={edgeColorOverride}
             setEdgeColorOverride={setEdgeColorOverride}
+            onDeleteTasks={deleteTasks}
             removeMode={removeMode}
             removeSelection={removeTargets}
             onToggleRemoveTarget={toggleRemoveTarget}
@@ -770,6 +1230,11 @@ export default function App() {
                 setHoverId={setHoverId}
                 startDrag={startDrag}
                 renameTask={renameTask}
+                setTaskDate={setTaskDate}
+                setTaskTags={setTaskTags}
+                setTaskEstimate={setTaskEstimate}
+                allTags={allTags}
+                tagColors={tagColors}
                 editGesture={editGesture}
                 LONGPRESS_MS={LONGPRESS_MS}
                 removeMode={removeMode}
@@ -780,9 +1245,62 @@ export default function App() {
           </div>
         )}
 
+        {view === "timeline" && (
+          <TimelineView
+            tasks={tasks}
+            setTasks={setTasks}
+            centerDone={!!center.done}
+            doneRollup={doneRollup}
+            removeMode={removeMode}
+            removeSelection={removeTargets}
+            onToggleRemoveTarget={toggleRemoveTarget}
+          />
+        )}
+
+        {view === "board" && (
+          <BoardView
+            tasks={tasks}
+            setTasks={setTasks}
+            statusColumns={statusColumns}
+            setStatusColumns={setStatusColumns}
+            centerDone={!!center.done}
+            doneRollup={doneRollup}
+            links={links}
+            removeMode={removeMode}
+            removeSelection={removeTargets}
+            onToggleRemoveTarget={toggleRemoveTarget}
+          />
+        )}
+
+        {view === "table" && (
+          <TableView
+            tasks={tasks}
+            setTasks={setTasks}
+            statusColumns={statusColumns}
+            centerDone={!!center.done}
+            doneRollup={doneRollup}
+            links={links}
+            members={members}
+            tagColors={tagColors}
+            branchColorOverride={branchColorOverride}
+            setBranchColorOverride={setBranchColorOverride}
+            removeMode={removeMode}
+            removeSelection={removeTargets}
+            onToggleRemoveTarget={toggleRemoveTarget}
+          />
+        )}
+
         {view === "about" && <AboutView />}
       </div>
 
+      {loadErrors && (
+        <LoadErrorReport
+          fileName={loadErrors.fileName}
+          errors={loadErrors.errors}
+          onClose={closeLoadErrors}
+        />
+      )}
+
       <Analytics />
     </div>
   );
@@ -797,6 +1315,11 @@ function Row({
   setHoverId,
   startDrag,
   renameTask,
+  setTaskDate,
+  setTaskTags,
+  setTaskEstimate,
+  allTags,
+  tagColors,
   editGesture,
   LONGPRESS_MS,
   removeMode,
@@ -811,6 +1334,11 @@ function Row({
   setHoverId: (id: string | null) => void;
   startDrag: (id: string) => void;
   renameTask: (id: string, title: string) => void;
+  setTaskDate: (id: string, key: "startDate" | "dueDate", value: string) => void;
+  setTaskTags: (id: string, tags: string[]) => void;
+  setTaskEstimate: (id: string, value: string) => void;
+  allTags: string[];
+  tagColors: Record<string, string>;
   editGesture: React.MutableRefObject<{
     pointerId: number;
     rowEl: HTMLElement;
@@ -829,6 +1357,8 @@ function Row({
     !!srcId && srcId !== task.id && !isDescendant(tasks, task.id, srcId);
 
   const isSelectedForRemove = removeMode && removeSelection.has(task.id);
+  // Badge nur nach explizitem Done (Vererbung zeigt die Map)
+  const dueState = computeDueState(task.dueDate, task.done === true);
 
   const longPressTimer = useRef<number | null>(null);
   const clearTimer = () => {
@@ -890,7 +1420,7 @@ function Row({
         onPointerDown={(e) => {
           if (removeMode) return;
           const target = e.target as HTMLElement;
-          if (target.closest(".task-input")) return;
+          if (target.closest(".task-input, .task-date, .task-estimate, .tag-editor")) return;
           if (e.pointerType === "mouse") startDrag(task.id);
         }}
         onPointerUp={handlePointerUpAnywhere}
@@ -919,6 +1449,50 @@ function Row({
           placeholder="Task title…"
           readOnly={removeMode}
         />
+        <label className="task-date" title="Start date">
+          <span className="task-date-label">Start</span>
+          <input
+            type="date"
+            className="task-date-input"
+            value={task.startDate ?? ""}
+            onChange={(e) => setTaskDate(task.id, "startDate", e.target.value)}
+            disabled={removeMode}
+          />
+        </label>
+        <label
+          className={"task-date" + (dueState ? ` task-date-${dueState}` : "")}
+          title="Due date"
+        >
+          <span className="task-date-label">Due</span>
+          <input
+            type="date"
+            className="task-date-input"
+            value={task.dueDate ?? ""}
+            onChange={(e) => setTaskDate(task.id, "dueDate", e.target.value)}
+            disabled={removeMode}
+          />
+        </label>
+        <label className="task-estimate" title="Estimate (weight in progress, default 1)">
+          <span className="task-date-label">Est.</span>
+          <input
+            type="number"
+            className="task-date-input task-estimate-input"
+            min={0}
+            step="any"
+            value={task.estimate ?? ""}
+            placeholder="1"
+            onChange={(e) => setTaskEstimate(task.id, e.target.value)}
+            disabled={removeMode}
+          />
+        </label>
+        <TagEditor
+          tags={task.tags ?? []}
+          onChange={(tags) => setTaskTags(task.id, tags)}
+          suggestions={allTags}
+          tagColors={tagColors}
+          disabled={removeMode}
+          placeholder="Tags…"
+        />
         {task.parentId && <span className="task-parent-label"></span>}
         <span className="drag-handle right" onPointerDown={handlePointerDownDragZone} />
       </div>
@@ -934,6 +1508,11 @@ function Row({
           setHoverId={setHoverId}
           startDrag={startDrag}
           renameTask={renameTask}
+          setTaskDate={setTaskDate}
+          setTaskTags={setTaskTags}
+          setTaskEstimate={setTaskEstimate}
+          allTags={allTags}
+          tagColors={tagColors}
           editGesture={editGesture}
           LONGPRESS_MS={LONGPRESS_MS}
           removeMode={removeMode}
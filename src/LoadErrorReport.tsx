@@ -0,0 +1,47 @@
+import { useEffect } from "react";
+
+type Props = {
+  fileName: string | null;
+  errors: string[];
+  onClose: () => void;
+};
+
+// lange Listen kappen, damit der Dialog lesbar bleibt
+const MAX_SHOWN = 40;
+
+export default function LoadErrorReport({ fileName, errors, onClose }: Props) {
+  // ESC schließt
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [onClose]);
+
+  const shown = errors.slice(0, MAX_SHOWN);
+  const hidden = errors.length - shown.length;
+
+  return (
+    <div className="loaderr-backdrop" role="dialog" aria-modal="true" onMouseDown={onClose}>
+      <div className="loaderr" onMouseDown={(e) => e.stopPropagation()}>
+        <div className="loaderr-head">
+          <div className="loaderr-title">Could not open {fileName || "file"}</div>
+          <button className="view-btn" onClick={onClose}>
+            Close
+          </button>
+        </div>
+        <div className="loaderr-sub">
+          The file is not a valid .taskmap.json project. {errors.length} problem
+          {errors.length === 1 ? "" : "s"} found:
+        </div>
+        <ul className="loaderr-list">
+          {shown.map((msg, i) => (
+            <li key={i}>{msg}</li>
+          ))}
+          {hidden > 0 && <li className="loaderr-more">…and {hidden} more</li>}
+        </ul>
+      </div>
+    </div>
+  );
+}
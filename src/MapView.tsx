@@ -9,6 +9,70 @@ import React, {
 import * as htmlToImage from "html-to-image";
 import { jsPDF } from "jspdf";
 import PdfPreviewOverlay from "./PdfPreviewOverlay";
+import NotesMarkdown from "./NotesMarkdown";
+import TagEditor from "./TagEditor";
+import { findMember, type Member } from "./members";
+import { collectSubtreeIds, edgeKey, parentPathTitles } from "./taskTree";
+import {
+  dependencyWarning,
+  findLink,
+  LINK_KINDS,
+  linkGeometry,
+  linkHeadPoints,
+  linkPath,
+  linkStyle,
+  makeLinkId,
+  type LinkGeometry,
+  type LinkKind,
+  type TaskLink,
+} from "./taskLinks";
+import {
+  computeProgress,
+  PROGRESS_MODES,
+  type ProgressMode,
+} from "./taskProgress";
+import {
+  computeSchedule,
+  formatDays,
+  predecessorsOf,
+} from "./taskSchedule";
+import { searchTasks } from "./taskSearch";
+import { DEFAULT_SNAP, snapPosition, type SnapGuide, type SnapSettings } from "./mapSnap";
+import {
+  CENTER_ID,
+  computeLayoutBase,
+  DEFAULT_LAYOUT_MODE,
+  offsetsForPositions,
+  R_CENTER,
+  R_CHILD,
+  R_ROOT,
+  resolveLayout,
+  tidyPositions,
+  type LayoutMode,
+} from "./mapLayout";
+import {
+  computeDueState,
+  dueBadgeLabel,
+  type DueState,
+} from "./taskDates";
+import {
+  computeDoneMap,
+  computeEffectiveStatusId,
+  getDefaultColumn,
+  isTerminalStatus,
+  rollupCenterDone,
+  withDone,
+  type StatusColumn,
+} from "./taskStatus";
+import {
+  addTag,
+  collectTags,
+  matchesTagFilter,
+  tagBubbleColor,
+  tagColor,
+  tagKey,
+  UNTAGGED_COLOR,
+} from "./taskTags";
 
 /* ---------- Types (lokal identisch zu App) ---------- */
 
@@ -26,6 +90,27 @@ export type Task = {
   color?: string; // individuelle Node-Farbe (nur Kreis)
   done?: boolean; // manueller Done-Status (Vererbung wie bei Farben)
   attachments?: TaskAttachment[]; // PDFs pro Task
+  startDate?: string; // ISO "YYYY-MM-DD"
+  dueDate?: string; // ISO "YYYY-MM-DD" (Overdue/Due-soon Badge)
+  status?: string; // StatusColumn.id (Board); synchron mit done
+  notes?: string; // Freitext (Markdown), Kontextmenü "Notes"
+  tags?: string[]; // Labels (Tag-Filter + optionale Tag-Farben)
+  assigneeId?: string; // Member.id (Team in App)
+  estimate?: number; // Aufwand/Gewicht für den Progress (ohne = 1)
+  duration?: number; // Dauer in Tagen (Critical Path; ohne = 0)
+  predecessors?: string[]; // Task.ids, die vorher fertig sein müssen
+  collapsed?: boolean; // Map: Nachfahren eingeklappt (+/- an der Bubble)
+  locked?: boolean; // Map: nicht verschiebbar, bleibt bei Tidy up + Reset stehen
+  placed?: boolean; // Map: von Hand gezogen (Offsets aus Tidy up zählen nicht)
+};
+
+// Center-Node (Projekt): gleiche persistierte Einstellungen wie ein Task
+// (Farbe + Attachments liegen wie bisher separat in App)
+export type CenterNode = {
+  done?: boolean; // Projekt-Done: Basis der Done-Vererbung
+  startDate?: string;
+  dueDate?: string;
+  notes?: string;
 };
 
 export type MapApi = {
@@ -37,6 +122,13 @@ export type MapApi = {
 
   exportPDF: () => Promise<void>;
   resetView: () => void;
+  fitMap: () => void; // ganze Map einpassen (Shift+1)
+  fitSelection: () => void; // Remove-Ziele, Auswahl bzw. Suchtreffer einpassen (Shift+2)
+  fitSubtree: (id: string) => void; // Node + Nachfahren einpassen (Shift+3 über einem Node)
+  expandToDepth: (depth: number | null) => void; // null = alles ausklappen
+  tidyUp: () => void; // Überlappungen auflösen, gepinnte Nodes bleiben stehen
+  getSelection: () => string[]; // Shift-Klick / Lasso-Auswahl
+  setSelection: (ids: string[]) => void;
 };
 
 type MapViewProps = {
@@ -67,10 +159,52 @@ type MapViewProps = {
   centerAttachments: TaskAttachment[];
   setCenterAttachments: React.Dispatch<React.SetStateAction<TaskAttachment[]>>;
 
+  // Board-Spalten (Status-Badges + Progress zählt nur Terminal-Spalte)
+  statusColumns: StatusColumn[];
+
+  // ✅ NEU: Center-Node Done/Dates – kommt aus App.tsx (Save/Open)
+  center: CenterNode;
+  setCenter: React.Dispatch<React.SetStateAction<CenterNode>>;
+
+  // ✅ NEU: Tags – Farbe pro Tag + Option "Bubble-Farben aus Tags" (persistiert in App)
+  tagColors: Record<string, string>;
+  setTagColors: React.Dispatch<React.SetStateAction<Record<string, string>>>;
+  colorByTags: boolean;
+  setColorByTags: React.Dispatch<React.SetStateAction<boolean>>;
+
+  // ✅ NEU: Team (Avatar-Chips + "Assigned to"-Filter)
+  members: Member[];
+
+  // ✅ NEU: gewichteter Progress (Roll-up-Modus pro Map)
+  progressMode: ProgressMode;
+  setProgressMode: React.Dispatch<React.SetStateAction<ProgressMode>>;
+
+  // ✅ NEU: Progress-Ringe um Nodes mit Kindern (pro Map schaltbar)
+  showProgressRings: boolean;
+  setShowProgressRings: React.Dispatch<React.SetStateAction<boolean>>;
+
+  // ✅ NEU: Done-Roll-up nach oben (Parent done, wenn alle Kinder done)
+  doneRollup: boolean;
+  setDoneRollup: React.Dispatch<React.SetStateAction<boolean>>;
+
+  // ✅ NEU: Querverbindungen (blocks / depends on / relates to)
+  links: TaskLink[];
+  setLinks: React.Dispatch<React.SetStateAction<TaskLink[]>>;
+
+  // ✅ NEU: Layout-Strategie pro Map (radial / tree / org / tidy / force)
+  layoutMode: LayoutMode;
+  autoTidy: boolean; // Überlappungen laufend auflösen (gepinnte Nodes bleiben)
+
+  // ✅ NEU: Einrasten beim Ziehen (Winkel, Abstand, Raster, Hilfslinien) – pro Map
+  snap: SnapSettings;
+
 
   // für Child-Einzelfarben + Done + Attachments:
   setTasks: React.Dispatch<React.SetStateAction<Task[]>>;
 
+  // ✅ NEU: Löschen aus der Map-Auswahl (inkl. Subtrees, Links + Vorgänger räumt App auf)
+  onDeleteTasks: (ids: Set<string>) => void;
+
   // Remove-Modus (nur Visualize)
   removeMode: boolean;
   removeSelection: Set<string>;
@@ -133,17 +267,22 @@ const COLOR_SWATCHES = [
   "#020617",
 ];
 
-const R_CENTER = 75;
-const R_ROOT = 60;
-const R_CHILD = 50;
-
-const ROOT_RADIUS = 280;
-const RING = 130;
-
 const MIN_Z = 0.35;
 const MAX_Z = 4;
 
-const CENTER_ID = "__CENTER__";
+// Filter (Tags "dim" / Assignee): Deckkraft nicht passender Nodes/Edges
+const FILTER_DIM_OPACITY = 0.2;
+
+// Progress-Ring um Nodes mit Kindern: Abstand zum Kreis + Strichbreite
+const PROGRESS_RING_GAP = 5;
+const PROGRESS_RING_WIDTH = 4;
+const PROGRESS_RING_TRACK = "rgba(148,163,184,.35)";
+const PROGRESS_RING_FILL = "#22c55e";
+
+const FIT_PADDING = 48; // Abstand zum Rand beim Einpassen (Bildschirm-px)
+const MINIMAP_W = 200; // max. Größe der Minimap (px)
+const MINIMAP_H = 140;
+const LAYOUT_ANIM_MS = 400; // Übergang nach Tidy up / Layout-Wechsel
 
 const MAXLEN_CENTER = 12;
 const MAXLEN_ROOT_AND_CHILD = 12;
@@ -279,9 +418,6 @@ function splitTitleLines(
   return lines.slice(0, maxLines);
 }
 
-/* Edge-Key für einzelne Verbindungsstriche */
-const edgeKey = (parentId: string, childId: string) => `${parentId}__${childId}`;
-
 /* ID-Helfer für Attachments */
 function makeId() {
   return `${Date.now().toString(36)}-${Math.random()
@@ -300,6 +436,15 @@ type ExportNode = {
   title: string;
   done: boolean;
   removeSelected: boolean;
+  dueState: DueState;
+  dueDate?: string;
+  status: { label: string; color: string } | null;
+  hasNotes: boolean;
+  dimmed: boolean; // Tag-/Assignee-Filter
+  assignee: { initials: string; color: string } | null;
+  branchPercent: number | null; // nur Roots: Progress des Branches
+  ringPercent: number | null; // Progress-Ring (Nodes mit Kindern)
+  collapsedCount: number | null; // eingeklappt: Anzahl versteckter Nachfahren
 };
 
 type ExportEdge = {
@@ -310,6 +455,14 @@ type ExportEdge = {
   x2: number;
   y2: number;
   color: string;
+  dimmed: boolean;
+};
+
+type ExportLink = {
+  id: string;
+  kind: LinkKind;
+  geo: LinkGeometry;
+  dimmed: boolean;
 };
 
 type ExportLayout = {
@@ -319,6 +472,7 @@ type ExportLayout = {
   originY: number;
   nodes: ExportNode[];
   edges: ExportEdge[];
+  links: ExportLink[];
 };
 
 /* ---------- MapView ---------- */
@@ -340,9 +494,29 @@ const MapView = forwardRef<MapApi, MapViewProps>(function MapView(props, ref) {
   removeMode,
   removeSelection,
   onToggleRemoveTarget,
+  onDeleteTasks,
   active = true,
   centerAttachments,
   setCenterAttachments,
+  statusColumns,
+  center,
+  setCenter,
+  tagColors,
+  setTagColors,
+  colorByTags,
+  setColorByTags,
+  members,
+  progressMode,
+  setProgressMode,
+  showProgressRings,
+  setShowProgressRings,
+  doneRollup,
+  setDoneRollup,
+  links,
+  setLinks,
+  layoutMode = DEFAULT_LAYOUT_MODE,
+  autoTidy = false,
+  snap = DEFAULT_SNAP,
 
   // ✅ Edge colors kommen jetzt aus App (falls App noch nicht updated ist: sichere Defaults)
   branchEdgeColorOverride = {},
@@ -354,15 +528,19 @@ const MapView = forwardRef<MapApi, MapViewProps>(function MapView(props, ref) {
 
   const wrapperRef = useRef<HTMLDivElement | null>(null);
 
-  // Done-Status für das Projekt
-  const [centerDone, setCenterDone] = useState<boolean>(false);
-
-  
-
- 
-
   /* ----- Helper ----- */
   const roots = useMemo(() => tasks.filter((t) => t.parentId === null), [tasks]);
+
+  // Done: explizit (Task/Center) > Roll-up von unten (optional) > Vererbung von oben
+  const doneMap = useMemo(
+    () => computeDoneMap(tasks, !!center.done, doneRollup),
+    [tasks, center.done, doneRollup]
+  );
+  // Done-Status für das Projekt (persistiert in App)
+  const centerDone =
+    typeof center.done === "boolean"
+      ? center.done
+      : doneRollup && rollupCenterDone(tasks, doneMap);
   const childrenOf = (id: string) => tasks.filter((t) => t.parentId === id);
   const getTask = (id: string) => tasks.find((t) => t.id === id);
   const getOffset = (id: string) => nodeOffset[id] || { x: 0, y: 0 };
@@ -370,30 +548,523 @@ const MapView = forwardRef<MapApi, MapViewProps>(function MapView(props, ref) {
     setNodeOffset((prev) => ({ ...prev, [id]: { x, y } }));
 
   function computeEffectiveDoneForTaskId(taskId: string): boolean {
-    const chain: Task[] = [];
-    let cur: Task | undefined = getTask(taskId);
-    while (cur) {
-      chain.push(cur);
-      cur = cur.parentId ? getTask(cur.parentId) : undefined;
-    }
-    let value = !!centerDone;
-    for (let i = chain.length - 1; i >= 0; i--) {
-      const t = chain[i];
-      if (typeof t.done === "boolean") value = t.done;
-    }
-    return value;
+    return doneMap.get(taskId) ?? !!center.done;
+  }
+
+  // Status-Badge nur für "Zwischenstände" (weder Default- noch Terminal-Spalte)
+  function computeStatusBadge(
+    taskId: string,
+    effectiveDone: boolean
+  ): { label: string; color: string } | null {
+    const t = getTask(taskId);
+    if (!t) return null;
+    const sid = computeEffectiveStatusId(t, statusColumns, effectiveDone);
+    if (sid === getDefaultColumn(statusColumns)?.id) return null;
+    if (isTerminalStatus(statusColumns, sid)) return null;
+    const col = statusColumns.find((c: StatusColumn) => c.id === sid);
+    return col ? { label: col.title, color: col.color } : null;
   }
 
   const totalTasks = tasks.length;
-  const doneCount = useMemo(() => {
-    if (!totalTasks) return 0;
-    return tasks.reduce(
-      (acc, t) => acc + (computeEffectiveDoneForTaskId(t.id) ? 1 : 0),
-      0
+
+  // Gewichteter Progress (Schätzung je Task, Roll-up-Modus): gesamt + pro Root-Branch
+  const progress = useMemo(() => {
+    // nur Terminal-Status zählt (In progress/Blocked etc. nicht)
+    const isComplete = (t: Task) =>
+      isTerminalStatus(
+        statusColumns,
+        computeEffectiveStatusId(t, statusColumns, computeEffectiveDoneForTaskId(t.id))
+      );
+    const branches = new Map<string, number>();
+    for (const root of roots) {
+      const ids = collectSubtreeIds(tasks, root.id);
+      const subset = tasks.filter((t: Task) => ids.has(t.id));
+      branches.set(
+        root.id,
+        computeProgress(tasks, subset, isComplete, progressMode).percent
+      );
+    }
+
+    // Ringe je Node mit Kindern: effektives Done des Subtrees (ohne den Node selbst)
+    const rings = new Map<string, number>();
+    if (showProgressRings && tasks.length) {
+      const isDone = (t: Task) => computeEffectiveDoneForTaskId(t.id);
+      const parentIds = new Set<string>();
+      for (const t of tasks as Task[]) if (t.parentId) parentIds.add(t.parentId);
+      for (const id of parentIds) {
+        const ids = collectSubtreeIds(tasks, id);
+        ids.delete(id);
+        const subset = tasks.filter((t: Task) => ids.has(t.id));
+        rings.set(id, computeProgress(tasks, subset, isDone, progressMode).percent);
+      }
+      rings.set(CENTER_ID, computeProgress(tasks, tasks, isDone, progressMode).percent);
+    }
+
+    return {
+      overall: computeProgress(tasks, tasks, isComplete, progressMode).percent,
+      branches,
+      rings,
+      weighted: tasks.some((t: Task) => typeof t.estimate === "number"),
+    };
+    // computeEffectiveDoneForTaskId liest nur doneMap + center.done (über centerDone abgedeckt)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [tasks, roots, centerDone, doneMap, statusColumns, progressMode, showProgressRings]);
+
+  /* ----- Schedule: Dauer + Vorgänger -> Critical Path (Anzeige lokal) ----- */
+  const [showCritical, setShowCritical] = useState(false);
+  const schedule = useMemo(
+    () => computeSchedule(tasks, links, (id) => doneMap.get(id) ?? !!center.done),
+    [tasks, links, doneMap, center.done]
+  );
+  const isCriticalNode = (id: string) =>
+    showCritical && !!schedule.entries.get(id)?.critical;
+  const taskTitle = (id: string) => getTask(id)?.title || "Untitled";
+  const centerDueState = computeDueState(center.dueDate, centerDone);
+
+  /* ----- Tags: Filter (lokal) + Farben ----- */
+  const allTags = useMemo(() => collectTags(tasks), [tasks]);
+  const [tagFilter, setTagFilter] = useState<string[]>([]); // tagKeys
+  const [tagFilterMode, setTagFilterMode] = useState<"dim" | "hide">("dim");
+
+  // Filter-Tags, die es nicht mehr gibt, ignorieren
+  const activeTagFilter = useMemo(
+    () => tagFilter.filter((k) => allTags.some((t) => tagKey(t) === k)),
+    [tagFilter, allTags]
+  );
+
+  // match = trägt einen Filter-Tag; visible = match + Vorfahren (Baum bleibt verbunden)
+  const tagFilterSets = useMemo(() => {
+    if (!activeTagFilter.length) return null;
+    const byId = new Map<string, Task>(tasks.map((t: Task) => [t.id, t] as const));
+    const match = new Set<string>();
+    const visible = new Set<string>();
+    for (const t of tasks) {
+      if (!matchesTagFilter(t, activeTagFilter)) continue;
+      match.add(t.id);
+      let cur: Task | undefined = t;
+      while (cur && !visible.has(cur.id)) {
+        visible.add(cur.id);
+        cur = cur.parentId ? byId.get(cur.parentId) : undefined;
+      }
+    }
+    return { match, visible };
+  }, [tasks, activeTagFilter]);
+
+  /* ----- Assignee: Avatar + "Assigned to"-Filter (lokal) ----- */
+  const [assigneeFilter, setAssigneeFilter] = useState<string | null>(null);
+  // Filter auf gelöschtes Mitglied ignorieren
+  const activeAssignee = findMember(members, assigneeFilter ?? undefined)?.id ?? null;
+  const assigneeOf = (id: string): Member | undefined =>
+    findMember(members, getTask(id)?.assigneeId);
+  const isAssigneeHit = (id: string) =>
+    !!activeAssignee && getTask(id)?.assigneeId === activeAssignee;
+
+  const isNodeDimmed = (id: string) =>
+    id !== CENTER_ID &&
+    ((!!tagFilterSets && !tagFilterSets.match.has(id)) ||
+      (!!activeAssignee && !isAssigneeHit(id)));
+  const isTagHidden = (id: string) =>
+    !!tagFilterSets &&
+    tagFilterMode === "hide" &&
+    id !== CENTER_ID &&
+    !tagFilterSets.visible.has(id);
+
+  /* ----- Einklappen: Task.collapsed versteckt alle Nachfahren (Map + Export) ----- */
+  const collapsedInfo = useMemo(() => {
+    const hidden = new Set<string>();
+    const counts = new Map<string, number>();
+    for (const t of tasks as Task[]) {
+      if (!t.collapsed) continue;
+      const ids = collectSubtreeIds(tasks, t.id);
+      ids.delete(t.id);
+      if (!ids.size) continue;
+      counts.set(t.id, ids.size);
+      ids.forEach((id) => hidden.add(id));
+    }
+    return { hidden, counts };
+  }, [tasks]);
+  const isHidden = (id: string) => isTagHidden(id) || collapsedInfo.hidden.has(id);
+
+  /* ----- Layout: eine Quelle für Render, Export, Minimap + Winkel-HUD ----- */
+  // nur Struktur-Änderungen lösen ein neues Basis-Layout aus (Titel, Done etc. nicht)
+  const layoutKey = tasks
+    .map((t: Task) => `${t.id}>${t.parentId ?? ""}${t.collapsed ? "-" : ""}`)
+    .join("|");
+  const layoutBase = useMemo(
+    () => computeLayoutBase(layoutMode, tasks),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [layoutMode, layoutKey]
+  );
+  const layoutRawPos = useMemo(
+    () => resolveLayout(layoutBase, nodeOffset),
+    [layoutBase, nodeOffset]
+  );
+  // von Hand gezogene + gesperrte Nodes gelten als gepinnt: Aufräumen lässt sie stehen.
+  // Offsets allein reichen nicht – Tidy up speichert sein Ergebnis ebenfalls als Offset.
+  const pinnedIds = useMemo(
+    () =>
+      new Set<string>(tasks.filter((t: Task) => t.placed || t.locked).map((t: Task) => t.id)),
+    [tasks]
+  );
+  const layoutTargetPos = useMemo(
+    () => (autoTidy ? tidyPositions(layoutBase, layoutRawPos, pinnedIds) : layoutRawPos),
+    [autoTidy, layoutBase, layoutRawPos, pinnedIds]
+  );
+
+  // Übergang animieren (Tidy up, Auto-Tidy an/aus, Layout-Wechsel) – sonst sofort
+  const [layoutAnimPos, setLayoutAnimPos] = useState<Record<
+    string,
+    { x: number; y: number }
+  > | null>(null);
+  // Frame kennt nur Nodes vom Animationsstart: neue Nodes (Add, Undo, Load) direkt ans Ziel
+  const layoutPos = useMemo(
+    () => (layoutAnimPos ? { ...layoutTargetPos, ...layoutAnimPos } : layoutTargetPos),
+    [layoutAnimPos, layoutTargetPos]
+  );
+  const layoutAnimRef = useRef<number | null>(null);
+  const layoutAnimNextRef = useRef(false);
+  const layoutShownRef = useRef(layoutTargetPos);
+  const layoutSettingsRef = useRef({ layoutMode, autoTidy });
+  useEffect(() => {
+    const prev = layoutSettingsRef.current;
+    const animate =
+      layoutAnimNextRef.current || prev.layoutMode !== layoutMode || prev.autoTidy !== autoTidy;
+    layoutSettingsRef.current = { layoutMode, autoTidy };
+    layoutAnimNextRef.current = false;
+    if (layoutAnimRef.current) cancelAnimationFrame(layoutAnimRef.current);
+    layoutAnimRef.current = null;
+
+    const from = layoutShownRef.current;
+    const to = layoutTargetPos;
+    if (!animate || vDrag.current) {
+      layoutShownRef.current = to;
+      setLayoutAnimPos(null);
+      return;
+    }
+    const t0 = performance.now();
+    const step = (now: number) => {
+      const k = Math.min(1, (now - t0) / LAYOUT_ANIM_MS);
+      if (k >= 1) {
+        layoutAnimRef.current = null;
+        layoutShownRef.current = to;
+        setLayoutAnimPos(null);
+        return;
+      }
+      const e = 1 - Math.pow(1 - k, 3);
+      const frame: Record<string, { x: number; y: number }> = {};
+      for (const id in to) {
+        const a = from[id] ?? to[id];
+        frame[id] = { x: a.x + (to[id].x - a.x) * e, y: a.y + (to[id].y - a.y) * e };
+      }
+      layoutShownRef.current = frame;
+      setLayoutAnimPos(frame);
+      layoutAnimRef.current = requestAnimationFrame(step);
+    };
+    layoutAnimRef.current = requestAnimationFrame(step);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [layoutTargetPos]);
+  useEffect(
+    () => () => {
+      if (layoutAnimRef.current) cancelAnimationFrame(layoutAnimRef.current);
+    },
+    []
+  );
+
+  // "Tidy up": Überlappungen einmal auflösen und als Offsets übernehmen
+  const tidyUp = () => {
+    const target = tidyPositions(layoutBase, layoutRawPos, pinnedIds);
+    const moved = Object.keys(target).some(
+      (id) =>
+        Math.abs(target[id].x - layoutRawPos[id].x) > 0.5 ||
+        Math.abs(target[id].y - layoutRawPos[id].y) > 0.5
+    );
+    if (!moved) {
+      alert("Nothing to tidy up – no bubbles overlap.");
+      return;
+    }
+    layoutAnimNextRef.current = true;
+    setNodeOffset(offsetsForPositions(layoutBase, target, nodeOffset));
+  };
+
+  /* ----- Offsets zurücksetzen + Lock ----- */
+  const isLocked = (id: string) => !!getTask(id)?.locked;
+
+  // ids = null: ganze Map (auch Offsets gelöschter Tasks); gesperrte Nodes bleiben
+  const resetOffsets = (ids: Set<string> | null) => {
+    const drop = Object.keys(nodeOffset).filter(
+      (id) => (!ids || ids.has(id)) && !isLocked(id)
+    );
+    if (!drop.length) return;
+    layoutAnimNextRef.current = true;
+    setNodeOffset((prev: Record<string, { x: number; y: number }>) => {
+      const next = { ...prev };
+      drop.forEach((id) => delete next[id]);
+      return next;
+    });
+    unmarkPlaced(new Set<string>(drop));
+  };
+
+  // zurückgesetzte Nodes darf Tidy wieder verschieben
+  const unmarkPlaced = (ids: Set<string>) =>
+    setTasks((prev: Task[]) =>
+      prev.some((x) => x.placed && ids.has(x.id))
+        ? prev.map((x) => (x.placed && ids.has(x.id) ? { ...x, placed: undefined } : x))
+        : prev
+    );
+
+  const resetMapOffsets = () => {
+    if (!Object.keys(nodeOffset).some((id) => !isLocked(id))) return;
+    if (!confirm("Reset all manually moved nodes to the computed layout? Locked nodes stay put."))
+      return;
+    resetOffsets(null);
+  };
+
+  const toggleLocked = (id: string) =>
+    setTasks((prev: Task[]) =>
+      prev.map((x) => (x.id === id ? { ...x, locked: x.locked ? undefined : true } : x))
+    );
+
+  /* ----- Auswahl (Shift-Klick / Lasso) + Bulk-Aktionen ----- */
+  const [selection, setSelection] = useState<Set<string>>(() => new Set());
+  const [selectionColorOpen, setSelectionColorOpen] = useState(false);
+  const selectedTasks: Task[] = tasks.filter((t: Task) => selection.has(t.id));
+
+  const toggleSelected = (id: string) =>
+    setSelection((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
+  const clearSelection = () => {
+    setSelection(new Set());
+    setSelectionColorOpen(false);
+  };
+
+  // gelöschte Tasks fallen aus der Auswahl, Remove-Modus hat seine eigene
+  useEffect(() => {
+    if (removeMode || !active) {
+      setSelection((prev) => (prev.size ? new Set() : prev));
+      return;
+    }
+    setSelection((prev) => {
+      const next = new Set([...prev].filter((id) => tasks.some((t: Task) => t.id === id)));
+      return next.size === prev.size ? prev : next;
+    });
+  }, [tasks, removeMode, active]);
+
+  // Vorfahr mit ausgewählt -> Node wandert mit dem Vorfahren (nicht doppelt bewegen)
+  const hasSelectedAncestor = (id: string) => {
+    const seen = new Set<string>();
+    let cur = getTask(id);
+    while (cur?.parentId && !seen.has(cur.parentId)) {
+      if (selection.has(cur.parentId)) return true;
+      seen.add(cur.parentId);
+      cur = getTask(cur.parentId);
+    }
+    return false;
+  };
+
+  const applySelectionColor = (hex: string) => {
+    const rootIds = selectedTasks.filter((t) => t.parentId === null).map((t) => t.id);
+    if (rootIds.length)
+      setBranchColorOverride((prev: Record<string, string>) => ({
+        ...prev,
+        ...Object.fromEntries(rootIds.map((id) => [id, hex])),
+      }));
+    if (rootIds.length < selectedTasks.length)
+      setTasks((prev: Task[]) =>
+        prev.map((x) => (selection.has(x.id) && x.parentId !== null ? { ...x, color: hex } : x))
+      );
+    setSelectionColorOpen(false);
+  };
+
+  // alle done -> wieder offen, sonst alle done (mit Done-Sperre wie beim einzelnen Node)
+  const toggleSelectionDone = () => {
+    const next = !selectedTasks.every((t) => computeEffectiveDoneForTaskId(t.id));
+    if (next && links.length) {
+      const nextDone = computeDoneMap(
+        tasks.map((x: Task) => (selection.has(x.id) ? { ...x, done: true } : x)),
+        !!center.done,
+        doneRollup
+      );
+      const newlyDone = tasks
+        .filter((x: Task) => nextDone.get(x.id) && !computeEffectiveDoneForTaskId(x.id))
+        .map((x: Task) => x.id);
+      const warn = dependencyWarning(tasks, links, newlyDone, computeEffectiveDoneForTaskId);
+      if (warn && !confirm(warn)) return;
+    }
+    setTasks((prev: Task[]) =>
+      prev.map((x) => (selection.has(x.id) ? withDone(x, statusColumns, next) : x))
+    );
+  };
+
+  // Tags, die alle ausgewählten Tasks haben (TagEditor: hinzufügen/entfernen für alle)
+  const selectionTags = (selectedTasks[0]?.tags ?? []).filter((tag) =>
+    selectedTasks.every((t) => (t.tags ?? []).some((x) => tagKey(x) === tagKey(tag)))
+  );
+  const setSelectionTags = (next: string[]) => {
+    const before = new Set(selectionTags.map(tagKey));
+    const after = new Set(next.map(tagKey));
+    const added = next.filter((tag) => !before.has(tagKey(tag)));
+    const removed = new Set([...before].filter((k) => !after.has(k)));
+    setTasks((prev: Task[]) =>
+      prev.map((x) => {
+        if (!selection.has(x.id)) return x;
+        let tags = (x.tags ?? []).filter((tag) => !removed.has(tagKey(tag)));
+        for (const tag of added) tags = addTag(tags, tag);
+        return { ...x, tags: tags.length ? tags : undefined };
+      })
+    );
+  };
+
+  // mögliche neue Eltern: alles außerhalb der ausgewählten Subtrees
+  const reparentTargets = (): Task[] => {
+    const blocked = new Set<string>();
+    selection.forEach((id) => collectSubtreeIds(tasks, id).forEach((d) => blocked.add(d)));
+    return tasks.filter((t: Task) => !blocked.has(t.id));
+  };
+
+  const reparentSelection = (targetId: string) => {
+    const movers = selectedTasks.filter((t) => !hasSelectedAncestor(t.id)).map((t) => t.id);
+    if (targetId !== CENTER_ID && movers.some((id) => collectSubtreeIds(tasks, id).has(targetId))) {
+      alert("Tasks can't be moved into their own subtree.");
+      return;
+    }
+    const parentId = targetId === CENTER_ID ? null : targetId;
+    layoutAnimNextRef.current = true;
+    setTasks((prev: Task[]) =>
+      prev.map((x) =>
+        movers.includes(x.id)
+          ? { ...x, parentId }
+          : x.id === targetId && x.collapsed
+            ? { ...x, collapsed: undefined }
+            : x
+      )
+    );
+    // Offsets galten für die alte Stelle im Baum
+    setNodeOffset((prev: Record<string, { x: number; y: number }>) => {
+      const next = { ...prev };
+      movers.forEach((id) => delete next[id]);
+      return next;
+    });
+    unmarkPlaced(new Set<string>(movers));
+  };
+
+  const deleteSelection = () => {
+    const ids = new Set<string>();
+    selection.forEach((id) => collectSubtreeIds(tasks, id).forEach((d) => ids.add(d)));
+    if (!ids.size) return;
+    const extra = ids.size - selection.size;
+    if (
+      !confirm(
+        `Delete ${selection.size} selected task${selection.size === 1 ? "" : "s"}` +
+          (extra > 0 ? ` and ${extra} subtask${extra === 1 ? "" : "s"}` : "") +
+          "?"
+      )
+    )
+      return;
+    onDeleteTasks(ids);
+    clearSelection();
+  };
+
+  // Shift-Klick: Auswahl umschalten statt ziehen
+  const handleSelectClick = (e: React.PointerEvent, id: string) => {
+    if (!e.shiftKey || e.pointerType === "touch" || e.button !== 0) return false;
+    e.stopPropagation();
+    e.preventDefault();
+    toggleSelected(id);
+    return true;
+  };
+
+  // Lasso: Shift + Ziehen auf freier Fläche (Bildschirm-Koordinaten relativ zum Wrapper)
+  const [lasso, setLasso] = useState<{ x1: number; y1: number; x2: number; y2: number } | null>(
+    null
+  );
+  const mapTapRef = useRef<{ x: number; y: number } | null>(null);
+
+  const finishLasso = () => {
+    const rect = wrapperRef.current?.getBoundingClientRect();
+    if (!lasso || !rect) return;
+    const a = clientToWorld(rect.left + lasso.x1, rect.top + lasso.y1);
+    const b = clientToWorld(rect.left + lasso.x2, rect.top + lasso.y2);
+    const [minX, maxX] = [Math.min(a.x, b.x), Math.max(a.x, b.x)];
+    const [minY, maxY] = [Math.min(a.y, b.y), Math.max(a.y, b.y)];
+    const hits = Object.keys(layoutPos).filter((id) => {
+      const p = layoutPos[id];
+      return (
+        id !== CENTER_ID &&
+        !isHidden(id) &&
+        p.x >= minX &&
+        p.x <= maxX &&
+        p.y >= minY &&
+        p.y <= maxY
+      );
+    });
+    if (hits.length) setSelection((prev) => new Set([...prev, ...hits]));
+  };
+
+  // Esc hebt die Auswahl auf (nicht beim Tippen)
+  useEffect(() => {
+    if (!active || !selection.size) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== "Escape") return;
+      const el = e.target as HTMLElement | null;
+      if (el?.closest?.("input, textarea, select")) return;
+      setSelection(new Set());
+      setSelectionColorOpen(false);
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [active, selection.size]);
+  const hasKids = (id: string) => tasks.some((t: Task) => t.parentId === id);
+
+  const toggleCollapsed = (id: string) =>
+    setTasks((prev: Task[]) =>
+      prev.map((x) => (x.id === id ? { ...x, collapsed: x.collapsed ? undefined : true } : x))
+    );
+
+  // Ebene 1 = Roots; depth N zeigt N Ebenen, tiefere Nodes mit Kindern werden eingeklappt
+  const expandToDepth = (depth: number | null) =>
+    setTasks((prev: Task[]) => {
+      const byId = new Map<string, Task>(prev.map((t) => [t.id, t] as const));
+      const parents = new Set(prev.map((t) => t.parentId).filter(Boolean));
+      const levelOf = (t: Task) => {
+        let level = 1;
+        const seen = new Set<string>([t.id]);
+        let cur = t.parentId ? byId.get(t.parentId) : undefined;
+        while (cur && !seen.has(cur.id)) {
+          seen.add(cur.id);
+          level++;
+          cur = cur.parentId ? byId.get(cur.parentId) : undefined;
+        }
+        return level;
+      };
+      return prev.map((t) => {
+        const collapsed = depth !== null && parents.has(t.id) && levelOf(t) >= depth;
+        return !!t.collapsed === collapsed ? t : { ...t, collapsed: collapsed || undefined };
+      });
+    });
+
+  const toggleTagFilter = (tag: string) =>
+    setTagFilter((prev) =>
+      prev.includes(tagKey(tag))
+        ? prev.filter((k) => k !== tagKey(tag))
+        : [...prev, tagKey(tag)]
     );
-  }, [tasks, centerDone, totalTasks]);
-  const progressPercent =
-    totalTasks === 0 ? 0 : Math.round((doneCount / totalTasks) * 100);
+
+  const rootBubbleColorFor = (rootId: string, i: number) =>
+    colorByTags
+      ? tagBubbleColor(getTask(rootId), tagColors) ?? UNTAGGED_COLOR
+      : branchColorOverride[rootId] ?? BRANCH_COLORS[i % BRANCH_COLORS.length];
+
+  const childBubbleColorFor = (t: Task | undefined, rootBubbleColor: string) =>
+    (colorByTags ? tagBubbleColor(t, tagColors) : undefined) ??
+    t?.color ??
+    rootBubbleColor;
+
+  const progressPercent = progress.overall;
 
   /* ---------- Attachments Helper ---------- */
 
@@ -550,21 +1221,74 @@ const centerTapRef = useRef<{ x: number; y: number; moved: boolean } | null>(nul
     startClient: { x: number; y: number };
     startOffset: { x: number; y: number };
     moved: boolean;
+    locked: boolean; // nur Tap erkennen, nicht verschieben
+    moveSelf: boolean; // false: Node hängt an einem mitgezogenen Vorfahren
+    group: { id: string; startOffset: { x: number; y: number } }[]; // übrige Auswahl
+    // Einrasten: Stand beim Drag-Start (Listener unten sind nur einmal registriert)
+    snap: {
+      settings: SnapSettings;
+      base: { x: number; y: number }; // Position ohne eigenen Offset
+      parent: { x: number; y: number } | null;
+      siblings: { x: number; y: number }[];
+      scale: number;
+    } | null;
   } | null>(null);
+  const [snapGuides, setSnapGuides] = useState<SnapGuide[]>([]);
   const nodeDragging = useRef(false);
 
+  // Start bei der angezeigten Position (Auto-Tidy/Animation), nicht der Roh-Position
+  const dragStartOffset = (id: string) => {
+    const o = getOffset(id);
+    const shown = layoutPos[id];
+    const raw = layoutRawPos[id];
+    return shown && raw ? { x: o.x + shown.x - raw.x, y: o.y + shown.y - raw.y } : o;
+  };
+
   function startNodeDrag(id: string, e: React.PointerEvent) {
     if (removeMode) return;
     e.stopPropagation();
     e.preventDefault();
     (e.target as HTMLElement).setPointerCapture?.(e.pointerId);
+    const locked = isLocked(id);
+    // Node gehört zur Auswahl -> ganze Auswahl ziehen (gesperrte + Nachfahren Ausgewählter nicht)
+    const inGroup = !locked && selection.has(id) && selection.size > 1;
+    const moveSelf = !inGroup || !hasSelectedAncestor(id);
     vDrag.current = {
       id,
       startClient: { x: e.clientX, y: e.clientY },
-      startOffset: getOffset(id),
+      startOffset: dragStartOffset(id),
       moved: false,
+      locked,
+      moveSelf,
+      snap: null,
+      group: inGroup
+        ? [...selection]
+            .filter((s) => s !== id && !isLocked(s) && !hasSelectedAncestor(s))
+            .map((s) => ({ id: s, startOffset: dragStartOffset(s) }))
+        : [],
     };
-    angleHudStart(id, e.target as HTMLElement);
+    // Einrasten relativ zum Parent; mitgezogene Auswahl taugt nicht als Hilfslinie
+    const start = vDrag.current.startOffset;
+    const shown = layoutPos[id];
+    const parentId = getTask(id)?.parentId ?? CENTER_ID;
+    if (!locked && moveSelf && shown)
+      vDrag.current.snap = {
+        settings: snap,
+        base: { x: shown.x - start.x, y: shown.y - start.y },
+        parent: layoutPos[parentId] ?? null,
+        siblings: tasks
+          .filter(
+            (t: Task) =>
+              (t.parentId ?? CENTER_ID) === parentId &&
+              t.id !== id &&
+              !isHidden(t.id) &&
+              !(inGroup && selection.has(t.id))
+          )
+          .map((t: Task) => layoutPos[t.id])
+          .filter(Boolean),
+        scale,
+      };
+    if (!locked && moveSelf) angleHudStart(id, e.target as HTMLElement);
     nodeDragging.current = true;
     document.documentElement.classList.add("dragging-global");
   }
@@ -588,13 +1312,52 @@ const centerTapRef = useRef<{ x: number; y: number; moved: boolean } | null>(nul
     const dy = e.clientY - d.startClient.y;
 
     if (!d.moved && Math.hypot(dx, dy) > TAP_MAX_MOVE_PX) d.moved = true;
-
-    setOffset(d.id, d.startOffset.x + dx, d.startOffset.y + dy);
-    angleHudUpdateLive(d.id, d.startOffset.x + dx, d.startOffset.y + dy);
+    if (d.locked) return;
+
+    // Einrasten (Alt gedrückt = frei ziehen); die Auswahl folgt um dieselbe Strecke
+    let ox = d.startOffset.x + dx;
+    let oy = d.startOffset.y + dy;
+    const sn = d.snap;
+    if (sn && !e.altKey) {
+      const r = snapPosition(
+        { x: sn.base.x + ox, y: sn.base.y + oy },
+        sn.parent,
+        sn.siblings,
+        sn.settings,
+        sn.scale
+      );
+      ox = r.pos.x - sn.base.x;
+      oy = r.pos.y - sn.base.y;
+      setSnapGuides(r.guides);
+    } else setSnapGuides((prev) => (prev.length ? [] : prev));
+    const mx = ox - d.startOffset.x;
+    const my = oy - d.startOffset.y;
+
+    if (d.group.length)
+      setNodeOffset((prev: Record<string, { x: number; y: number }>) => {
+        const next = { ...prev };
+        for (const g of d.group) next[g.id] = { x: g.startOffset.x + mx, y: g.startOffset.y + my };
+        return next;
+      });
+    if (!d.moveSelf) return;
+    setOffset(d.id, ox, oy);
+    angleHudUpdateLive(d.id, ox, oy, !!sn?.settings.radialStep && !e.altKey);
   }
   function onNodePointerUp() {
     angleHudEnd();
-    if (!vDrag.current) return;
+    setSnapGuides([]);
+    const d = vDrag.current;
+    if (!d) return;
+    // gezogene Nodes merken (pinnt sie für Tidy up / Auto-Tidy)
+    if (d.moved && !d.locked) {
+      const ids = new Set(d.group.map((g) => g.id));
+      if (d.moveSelf) ids.add(d.id);
+      setTasks((prev: Task[]) =>
+        prev.some((x) => ids.has(x.id) && !x.placed)
+          ? prev.map((x) => (ids.has(x.id) && !x.placed ? { ...x, placed: true } : x))
+          : prev
+      );
+    }
     vDrag.current = null;
     nodeDragging.current = false;
     document.documentElement.classList.remove("dragging-global");
@@ -651,6 +1414,202 @@ const centerTapRef = useRef<{ x: number; y: number; moved: boolean } | null>(nul
     setPan({ x: newPanX, y: newPanY });
   }
 
+  // pan/scale animiert anfahren (ease-out); ein neuer Aufruf bricht den laufenden ab
+  const viewAnimRef = useRef<number | null>(null);
+  useEffect(
+    () => () => {
+      if (viewAnimRef.current) cancelAnimationFrame(viewAnimRef.current);
+    },
+    []
+  );
+  function animateView(toPan: { x: number; y: number }, toScale: number, ms = 350) {
+    if (viewAnimRef.current) cancelAnimationFrame(viewAnimRef.current);
+    const fromPan = { ...pan };
+    const fromScale = scale;
+    const t0 = performance.now();
+    const step = (now: number) => {
+      const k = Math.min(1, (now - t0) / ms);
+      const e = 1 - Math.pow(1 - k, 3);
+      setScale(fromScale + (toScale - fromScale) * e);
+      setPan({
+        x: fromPan.x + (toPan.x - fromPan.x) * e,
+        y: fromPan.y + (toPan.y - fromPan.y) * e,
+      });
+      viewAnimRef.current = k < 1 ? requestAnimationFrame(step) : null;
+    };
+    viewAnimRef.current = requestAnimationFrame(step);
+  }
+
+  // Pan, bei dem Welt-Punkt (0,0 = Center-Node) mittig liegt (map-origin sitzt bei 50%/50%)
+  function panForWorldCenter(x: number, y: number, s: number) {
+    const rect = wrapperRef.current?.getBoundingClientRect();
+    if (!rect) return null;
+    const w = rect.width;
+    const h = rect.height;
+    return { x: w / 2 - s * (w / 2 + x), y: h / 2 - s * (h / 2 + y) };
+  }
+
+  function centerOnWorld(x: number, y: number, nextScale = scale) {
+    const next = panForWorldCenter(x, y, nextScale);
+    if (next) animateView(next, nextScale);
+  }
+
+  /* ---------- Suche (Ctrl/Cmd+F): Titel, Tags, Notes ---------- */
+  const [searchOpen, setSearchOpen] = useState(false);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [searchIndex, setSearchIndex] = useState(-1);
+  const searchInputRef = useRef<HTMLInputElement | null>(null);
+  const searchHits = useMemo(() => searchTasks(tasks, searchQuery), [tasks, searchQuery]);
+  const searchMatchIds = useMemo(() => new Set(searchHits.map((h) => h.id)), [searchHits]);
+  const searchFocusId = searchOpen ? searchHits[searchIndex]?.id ?? null : null;
+  const isSearchMatch = (id: string) => searchOpen && searchMatchIds.has(id);
+
+  const goToSearchHit = (i: number) => {
+    if (!searchHits.length) return;
+    const idx = (i + searchHits.length) % searchHits.length;
+    const id = searchHits[idx].id;
+    setSearchIndex(idx);
+
+    // eingeklappte Vorfahren öffnen, sonst wäre der Treffer nicht zu sehen
+    const ancestors = new Set<string>();
+    let cur = getTask(id);
+    while (cur?.parentId && !ancestors.has(cur.parentId)) {
+      ancestors.add(cur.parentId);
+      cur = getTask(cur.parentId);
+    }
+    if (tasks.some((t: Task) => ancestors.has(t.id) && t.collapsed))
+      setTasks((prev: Task[]) =>
+        prev.map((x) => (ancestors.has(x.id) && x.collapsed ? { ...x, collapsed: undefined } : x))
+      );
+    setPendingHitId(id);
+  };
+
+  // Treffer erst zentrieren, wenn er im (ggf. neu ausgeklappten) Layout steht –
+  // eingeklappte Nachfahren haben keine Position, Tree/Org verschieben beim Aufklappen
+  const [pendingHitId, setPendingHitId] = useState<string | null>(null);
+  useEffect(() => {
+    if (!pendingHitId) return;
+    const p = layoutTargetPos[pendingHitId];
+    if (!p) return;
+    setPendingHitId(null);
+    centerOnWorld(p.x, p.y, Math.min(MAX_Z, Math.max(scale, 1)));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [pendingHitId, layoutTargetPos]);
+
+  const closeSearch = () => {
+    setSearchOpen(false);
+    setSearchIndex(-1);
+    setPendingHitId(null);
+  };
+
+  useEffect(() => {
+    if (!active) {
+      setSearchOpen(false);
+      return;
+    }
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || e.key.toLowerCase() !== "f") return;
+      e.preventDefault();
+      setSearchOpen(true);
+      requestAnimationFrame(() => searchInputRef.current?.select());
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [active]);
+
+  /* ---------- Cross-Links: Ziehen vom Handle, Menü für Art/Entfernen ---------- */
+  const [linkDrag, setLinkDrag] = useState<{ from: string; x: number; y: number } | null>(
+    null
+  );
+  const [linkMenu, setLinkMenu] = useState<{
+    from: string;
+    to: string;
+    linkId?: string;
+    x: number;
+    y: number;
+  } | null>(null);
+
+  const nodeRadius = (id: string) =>
+    id === CENTER_ID ? R_CENTER : getTask(id)?.parentId ? R_CHILD : R_ROOT;
+
+  // Client -> Welt (map-origin liegt bei 0,0)
+  const clientToWorld = (clientX: number, clientY: number) => {
+    const o = wrapperRef.current?.querySelector(".map-origin")?.getBoundingClientRect();
+    if (!o) return { x: 0, y: 0 };
+    return { x: (clientX - o.left) / scale, y: (clientY - o.top) / scale };
+  };
+
+  const startLinkDrag = (id: string, e: React.PointerEvent) => {
+    if (removeMode || !active) return;
+    e.stopPropagation();
+    e.preventDefault();
+    setLinkMenu(null);
+    setLinkDrag({ from: id, ...clientToWorld(e.clientX, e.clientY) });
+  };
+
+  useEffect(() => {
+    if (!linkDrag) return;
+    const onMove = (ev: PointerEvent) =>
+      setLinkDrag((d) => (d ? { ...d, ...clientToWorld(ev.clientX, ev.clientY) } : d));
+    const onUp = (ev: PointerEvent) => {
+      const from = linkDrag.from;
+      setLinkDrag(null);
+      const el = document.elementFromPoint(ev.clientX, ev.clientY) as HTMLElement | null;
+      const to = el?.closest<HTMLElement>("[data-node-id]")?.dataset.nodeId;
+      if (!to || to === from || to === CENTER_ID) return;
+      setLinkMenu({ from, to, linkId: findLink(links, from, to)?.id, x: ev.clientX, y: ev.clientY });
+    };
+    window.addEventListener("pointermove", onMove);
+    window.addEventListener("pointerup", onUp);
+    window.addEventListener("pointercancel", onUp);
+    return () => {
+      window.removeEventListener("pointermove", onMove);
+      window.removeEventListener("pointerup", onUp);
+      window.removeEventListener("pointercancel", onUp);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [linkDrag?.from]);
+
+  useEffect(() => {
+    if (!linkMenu) return;
+    const onDown = (ev: PointerEvent) => {
+      const path = (ev.composedPath && ev.composedPath()) || [];
+      const clickedInside = path.some((el) =>
+        (el as HTMLElement)?.classList?.contains?.("link-menu")
+      );
+      if (!clickedInside) setLinkMenu(null);
+    };
+    const onEsc = (e: KeyboardEvent) => {
+      if (e.key === "Escape") setLinkMenu(null);
+    };
+    window.addEventListener("pointerdown", onDown);
+    window.addEventListener("keydown", onEsc);
+    return () => {
+      window.removeEventListener("pointerdown", onDown);
+      window.removeEventListener("keydown", onEsc);
+    };
+  }, [linkMenu]);
+
+  useEffect(() => {
+    if (!active || removeMode) {
+      setLinkMenu(null);
+      setLinkDrag(null);
+    }
+  }, [active, removeMode]);
+
+  const applyLinkKind = (kind: LinkKind) => {
+    if (!linkMenu) return;
+    const { from, to, linkId } = linkMenu;
+    if (linkId) setLinks((prev: TaskLink[]) => prev.map((l) => (l.id === linkId ? { ...l, kind } : l)));
+    else setLinks((prev: TaskLink[]) => [...prev, { id: makeLinkId(), from, to, kind }]);
+    setLinkMenu(null);
+  };
+
+  const removeLink = (linkId: string) => {
+    setLinks((prev: TaskLink[]) => prev.filter((l) => l.id !== linkId));
+    setLinkMenu(null);
+  };
+
   const onPointerDownMap = (e: React.PointerEvent) => {
     if (!active) return;
 
@@ -661,6 +1620,27 @@ const centerTapRef = useRef<{ x: number; y: number; moved: boolean } | null>(nul
     }
 
     if (nodeDragging.current) return;
+
+    // Shift + Ziehen auf freier Fläche = Lasso-Auswahl
+    if (e.shiftKey && e.pointerType !== "touch" && e.button === 0 && !removeMode) {
+      const rect = wrapperRef.current?.getBoundingClientRect();
+      if (rect) {
+        const x = e.clientX - rect.left;
+        const y = e.clientY - rect.top;
+        setLasso({ x1: x, y1: y, x2: x, y2: y });
+        (e.target as HTMLElement).setPointerCapture?.(e.pointerId);
+        e.preventDefault();
+        return;
+      }
+    }
+    // Tap ins Leere hebt die Auswahl auf (siehe onPointerUpMap)
+    mapTapRef.current =
+      activePointers.current.size === 0 &&
+      e.button === 0 &&
+      !(e.target as HTMLElement).closest?.("[data-node-id]")
+        ? { x: e.clientX, y: e.clientY }
+        : null;
+
     activePointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
 
     if (activePointers.current.size === 2) {
@@ -682,6 +1662,13 @@ const centerTapRef = useRef<{ x: number; y: number; moved: boolean } | null>(nul
   const onPointerMoveMap = (e: React.PointerEvent) => {
     if (!active) return;
 
+    if (lasso) {
+      const rect = wrapperRef.current?.getBoundingClientRect();
+      if (rect)
+        setLasso((l) => (l ? { ...l, x2: e.clientX - rect.left, y2: e.clientY - rect.top } : l));
+      return;
+    }
+
     if (
       e.pointerType === "touch" &&
       touchLongPressTimer.current !== null &&
@@ -726,6 +1713,19 @@ const centerTapRef = useRef<{ x: number; y: number; moved: boolean } | null>(nul
 
   const onPointerUpMap = (e: React.PointerEvent) => {
     clearTouchLongPress();
+    if (lasso) {
+      if (e.type === "pointerup") finishLasso();
+      setLasso(null);
+      return;
+    }
+    const tap = mapTapRef.current;
+    mapTapRef.current = null;
+    if (
+      tap &&
+      e.type === "pointerup" &&
+      Math.hypot(e.clientX - tap.x, e.clientY - tap.y) <= TAP_MAX_MOVE_PX
+    )
+      clearSelection();
     activePointers.current.delete(e.pointerId);
     if (activePointers.current.size < 2) {
       pinching.current = false;
@@ -824,7 +1824,7 @@ const centerTapRef = useRef<{ x: number; y: number; moved: boolean } | null>(nul
     nodeId: string | null;
     edgeParentId: string | null;
     edgeChildId: string | null;
-    tab: "color" | "files";
+    tab: "color" | "files" | "dates" | "notes" | "tags" | "owner" | "schedule";
   }>({
     open: false,
     x: 0,
@@ -1007,32 +2007,161 @@ const centerTapRef = useRef<{ x: number; y: number; moved: boolean } | null>(nul
     }
   };
 
+  // Roll-up-Modus: erklärt, wo explizites Done und Roll-up gegeneinander laufen
+  const explainDoneConflicts = (id: string, next: boolean): string[] => {
+    const isCenter = id === CENTER_ID;
+    const title = isCenter ? projectTitle || "Project" : getTask(id)?.title || "Untitled";
+    const nextTasks = isCenter
+      ? tasks
+      : tasks.map((x: Task) => (x.id === id ? { ...x, done: next } : x));
+    const nextMap = computeDoneMap(nextTasks, isCenter ? next : !!center.done, true);
+    const kids = isCenter ? roots : childrenOf(id);
+    const notes: string[] = [];
+
+    if (next && kids.length) {
+      const subtree = isCenter ? null : collectSubtreeIds(tasks, id);
+      const open = nextTasks.filter(
+        (t: Task) => t.id !== id && (!subtree || subtree.has(t.id)) && !nextMap.get(t.id)
+      ).length;
+      if (open)
+        notes.push(
+          `"${title}" will show as done although ${open} subtask(s) with their own open state stay open.`
+        );
+    }
+    if (!next && kids.length && kids.every((k: Task) => nextMap.get(k.id)))
+      notes.push(
+        `All subtasks of "${title}" are done. Reopening it overrides the roll-up, so it stays open until you mark it done again.`
+      );
+    if (!next && !isCenter) {
+      // explizit erledigter Vorfahre bleibt done (explizit schlägt Roll-up)
+      let holder: string | null = null;
+      let cur = getTask(id);
+      while (!holder && cur?.parentId) {
+        cur = getTask(cur.parentId);
+        if (cur?.done === true) holder = `"${cur.title || "Untitled"}"`;
+      }
+      if (!holder && center.done === true) holder = "The project";
+      if (holder)
+        notes.push(
+          `${holder} is marked done explicitly and stays done even though "${title}" is reopened.`
+        );
+    }
+    return notes;
+  };
+
   const toggleDone = () => {
     if (!ctxMenu.open || ctxMenu.kind !== "node") return;
     if (!ctxMenu.nodeId) return;
 
-    if (ctxMenu.nodeId === CENTER_ID) {
-      setCenterDone((prev) => !prev);
-      return;
-    }
-
     const id = ctxMenu.nodeId;
-    const t = getTask(id);
-    if (!t) return;
+    const t = id === CENTER_ID ? undefined : getTask(id);
+    if (id !== CENTER_ID && !t) return;
 
-    const explicit = t.done;
-    const effective = computeEffectiveDoneForTaskId(id);
+    const explicit = id === CENTER_ID ? center.done : t!.done;
+    const effective = id === CENTER_ID ? centerDone : computeEffectiveDoneForTaskId(id);
 
     let nextExplicit: boolean;
     if (explicit === undefined) nextExplicit = !effective;
     else if (explicit === true) nextExplicit = false;
     else nextExplicit = true;
 
-    setTasks((prev) =>
-      prev.map((x) => (x.id === id ? { ...x, done: nextExplicit } : x))
-    );
-  };
-
+    // Done-Sperre: alles, was dadurch neu done wird, darf keine offenen Abhängigkeiten haben
+    if (nextExplicit && links.length) {
+      const nextDone = computeDoneMap(
+        id === CENTER_ID
+          ? tasks
+          : tasks.map((x: Task) => (x.id === id ? { ...x, done: true } : x)),
+        id === CENTER_ID ? true : !!center.done,
+        doneRollup
+      );
+      const newlyDone = tasks
+        .filter((x: Task) => nextDone.get(x.id) && !computeEffectiveDoneForTaskId(x.id))
+        .map((x: Task) => x.id);
+      const warn = dependencyWarning(tasks, links, newlyDone, computeEffectiveDoneForTaskId);
+      if (warn && !confirm(warn)) return;
+    }
+
+    if (doneRollup) {
+      const notes = explainDoneConflicts(id, nextExplicit);
+      if (notes.length && !confirm(`${notes.join("\n\n")}\n\nContinue?`)) return;
+    }
+
+    if (id === CENTER_ID) {
+      setCenter((prev: CenterNode) => ({ ...prev, done: nextExplicit }));
+      return;
+    }
+
+    setTasks((prev: Task[]) =>
+      prev.map((x) => (x.id === id ? withDone(x, statusColumns, nextExplicit) : x))
+    );
+  };
+
+  const setTaskDate = (
+    id: string,
+    key: "startDate" | "dueDate",
+    value: string
+  ) => {
+    if (id === CENTER_ID) {
+      setCenter((prev: CenterNode) => ({ ...prev, [key]: value || undefined }));
+      return;
+    }
+    setTasks((prev: Task[]) =>
+      prev.map((x) => (x.id === id ? { ...x, [key]: value || undefined } : x))
+    );
+  };
+
+  const setTaskTags = (id: string, tags: string[]) =>
+    setTasks((prev: Task[]) =>
+      prev.map((x) => (x.id === id ? { ...x, tags: tags.length ? tags : undefined } : x))
+    );
+
+  const setTaskAssignee = (id: string, assigneeId: string | undefined) =>
+    setTasks((prev: Task[]) => prev.map((x) => (x.id === id ? { ...x, assigneeId } : x)));
+
+  const setTaskDuration = (id: string, value: string) => {
+    const n = value === "" ? undefined : Number(value);
+    if (n !== undefined && !(Number.isFinite(n) && n >= 0)) return;
+    setTasks((prev: Task[]) => prev.map((x) => (x.id === id ? { ...x, duration: n } : x)));
+  };
+
+  const setTaskPredecessors = (id: string, next: string[]) =>
+    setTasks((prev: Task[]) =>
+      prev.map((x) => (x.id === id ? { ...x, predecessors: next.length ? next : undefined } : x))
+    );
+
+  // Zyklen sind erlaubt (Schedule-Panel meldet sie), aber nur nach Rückfrage
+  const addPredecessor = (id: string, predId: string) => {
+    const t = getTask(id);
+    if (!t || !predId) return;
+    const next = [...(t.predecessors ?? []), predId];
+    const nextTasks = tasks.map((x: Task) => (x.id === id ? { ...x, predecessors: next } : x));
+    const check = computeSchedule(nextTasks, links, () => false);
+    if (
+      schedule.entries.has(id) &&
+      !check.entries.has(id) &&
+      !confirm(
+        `"${taskTitle(predId)}" already depends on "${taskTitle(id)}". This creates a cycle, so neither can be scheduled.\n\nAdd anyway?`
+      )
+    )
+      return;
+    setTaskPredecessors(id, next);
+  };
+
+  const getNodeNotes = (id: string) =>
+    (id === CENTER_ID ? center.notes : getTask(id)?.notes) ?? "";
+
+  const setNodeNotes = (id: string, value: string) => {
+    const notes = value || undefined;
+    if (id === CENTER_ID) {
+      setCenter((prev: CenterNode) => ({ ...prev, notes }));
+      return;
+    }
+    setTasks((prev: Task[]) => prev.map((x) => (x.id === id ? { ...x, notes } : x)));
+  };
+
+  const getNodeDates = (id: string): { startDate?: string; dueDate?: string } =>
+    id === CENTER_ID ? center : getTask(id) ?? {};
+
   const onNodeContextMenu = (e: React.MouseEvent, id: string) => {
     e.preventDefault();
     e.stopPropagation();
@@ -1154,6 +2283,264 @@ const centerTapRef = useRef<{ x: number; y: number; moved: boolean } | null>(nul
     ));
   }
 
+  function renderStatusBadge(status: { label: string; color: string } | null) {
+    if (!status || removeMode) return null;
+    return (
+      <div
+        className="status-badge"
+        style={{ background: status.color }}
+        title={status.label}
+        aria-hidden="true"
+      >
+        {status.label.trim().charAt(0).toUpperCase()}
+      </div>
+    );
+  }
+
+  function renderNotesBadge(hasNotes: boolean) {
+    if (!hasNotes) return null;
+    return (
+      <div className="notes-badge" title="Has notes" aria-hidden="true">
+        ≡
+      </div>
+    );
+  }
+
+  // SVG-Ring außerhalb des Kreises; Start oben, im Uhrzeigersinn
+  function renderProgressRing(percent: number | null | undefined, r: number) {
+    if (percent == null) return null;
+    const rr = r + PROGRESS_RING_GAP + PROGRESS_RING_WIDTH / 2;
+    const size = 2 * (rr + PROGRESS_RING_WIDTH);
+    const circ = 2 * Math.PI * rr;
+    return (
+      <svg
+        className="progress-ring"
+        width={size}
+        height={size}
+        viewBox={`${-size / 2} ${-size / 2} ${size} ${size}`}
+        aria-hidden="true"
+      >
+        <circle r={rr} fill="none" stroke={PROGRESS_RING_TRACK} strokeWidth={PROGRESS_RING_WIDTH} />
+        {percent > 0 && (
+          <circle
+            r={rr}
+            fill="none"
+            stroke={PROGRESS_RING_FILL}
+            strokeWidth={PROGRESS_RING_WIDTH}
+            strokeLinecap={percent < 100 ? "round" : "butt"}
+            strokeDasharray={`${(circ * percent) / 100} ${circ}`}
+            transform="rotate(-90)"
+          />
+        )}
+      </svg>
+    );
+  }
+
+  // Griff rechts an der Bubble: ziehen = neue Verbindung
+  function renderLinkHandle(id: string) {
+    if (removeMode) return null;
+    return (
+      <div
+        className="link-handle"
+        title="Drag to another task to link"
+        onPointerDown={(e) => startLinkDrag(id, e)}
+      />
+    );
+  }
+
+  function renderLinkShape(
+    key: string,
+    kind: LinkKind,
+    geo: LinkGeometry,
+    ox = 0,
+    oy = 0,
+    dimmed = false,
+    onPick?: (e: React.MouseEvent) => void
+  ) {
+    const st = linkStyle(kind);
+    return (
+      <g key={key} opacity={dimmed ? FILTER_DIM_OPACITY : undefined}>
+        {onPick && (
+          <path
+            d={linkPath(geo, ox, oy)}
+            fill="none"
+            stroke="transparent"
+            strokeWidth={16}
+            style={{ pointerEvents: "stroke", cursor: "pointer" }}
+            onPointerDown={(e) => e.stopPropagation()}
+            onClick={onPick}
+          />
+        )}
+        <path
+          d={linkPath(geo, ox, oy)}
+          fill="none"
+          stroke={st.color}
+          strokeWidth={2.5}
+          strokeDasharray={st.dash}
+          style={{ pointerEvents: "none" }}
+        />
+        {st.arrow && (
+          <polygon
+            points={linkHeadPoints(geo, ox, oy)}
+            fill={st.color}
+            style={{ pointerEvents: "none" }}
+          />
+        )}
+      </g>
+    );
+  }
+
+  // Live-Links: Positionen wie im Render (Pos-Map der Winkel-HUD)
+  function renderLiveLinks() {
+    if (!links.length && !linkDrag) return null;
+    const pos = angleHudComputePosMap();
+    const out: React.ReactElement[] = [];
+    for (const l of links) {
+      const a = pos[l.from];
+      const b = pos[l.to];
+      if (!a || !b || isHidden(l.from) || isHidden(l.to)) continue;
+      const geo = linkGeometry(
+        { ...a, r: nodeRadius(l.from) },
+        { ...b, r: nodeRadius(l.to) }
+      );
+      out.push(
+        renderLinkShape(
+          l.id,
+          l.kind,
+          geo,
+          0,
+          0,
+          isNodeDimmed(l.from) && isNodeDimmed(l.to),
+          (e) => {
+            if (removeMode) return;
+            setLinkMenu({ from: l.from, to: l.to, linkId: l.id, x: e.clientX, y: e.clientY });
+          }
+        )
+      );
+    }
+    const src = linkDrag && pos[linkDrag.from];
+    if (linkDrag && src)
+      out.push(
+        <line
+          key="link-draft"
+          x1={src.x}
+          y1={src.y}
+          x2={linkDrag.x}
+          y2={linkDrag.y}
+          stroke="#38bdf8"
+          strokeWidth={2.5}
+          strokeDasharray="6 5"
+          style={{ pointerEvents: "none" }}
+        />
+      );
+    return out;
+  }
+
+  // Kritische Vorgänger-Beziehungen, die keine Baum-Kante sind (Baum-Kanten färbt renderEdgeLine)
+  function renderCriticalOverlay() {
+    if (!showCritical || !schedule.criticalEdges.size) return null;
+    const pos = angleHudComputePosMap();
+    const out: React.ReactElement[] = [];
+    schedule.criticalEdges.forEach(({ from, to }, key) => {
+      const a = pos[from];
+      const b = pos[to];
+      if (getTask(to)?.parentId === from || !a || !b) return;
+      if (isHidden(from) || isHidden(to)) return;
+      const geo = linkGeometry({ ...a, r: nodeRadius(from) }, { ...b, r: nodeRadius(to) });
+      out.push(
+        <g key={`critical-${key}`} className="critical-link" style={{ pointerEvents: "none" }}>
+          <path d={linkPath(geo)} fill="none" />
+          <polygon points={linkHeadPoints(geo)} />
+        </g>
+      );
+    });
+    return out;
+  }
+
+  // +/- links an Bubbles mit Kindern; eingeklappt zusätzlich die Anzahl versteckter Nachfahren
+  function renderCollapseToggle(id: string) {
+    if (!hasKids(id)) return null;
+    const collapsed = collapsedInfo.counts.has(id);
+    return (
+      <>
+        {!removeMode && (
+          <button
+            className="collapse-toggle"
+            title={collapsed ? "Expand" : "Collapse"}
+            aria-label={collapsed ? "Expand" : "Collapse"}
+            onPointerDown={(e) => e.stopPropagation()}
+            onClick={(e) => {
+              e.stopPropagation();
+              toggleCollapsed(id);
+            }}
+          >
+            {collapsed ? "+" : "−"}
+          </button>
+        )}
+        {renderCollapsedCount(collapsedInfo.counts.get(id))}
+      </>
+    );
+  }
+
+  function renderLockBadge(id: string) {
+    if (!isLocked(id)) return null;
+    return (
+      <button
+        className="lock-badge map-export-hide"
+        title="Locked – click to unlock"
+        aria-label="Unlock"
+        onPointerDown={(e) => e.stopPropagation()}
+        onClick={(e) => {
+          e.stopPropagation();
+          toggleLocked(id);
+        }}
+      >
+        📌
+      </button>
+    );
+  }
+
+  function renderCollapsedCount(count: number | null | undefined) {
+    if (!count) return null;
+    return (
+      <div className="collapsed-count" title={`${count} hidden`} aria-hidden="true">
+        +{count}
+      </div>
+    );
+  }
+
+  function renderBranchProgress(percent: number | null | undefined) {
+    if (percent == null) return null;
+    return (
+      <div className="branch-progress" title="Branch progress" aria-hidden="true">
+        {percent}%
+      </div>
+    );
+  }
+
+  function renderAvatarChip(member: Member | undefined) {
+    if (!member) return null;
+    return (
+      <div
+        className="member-avatar node-avatar"
+        style={{ background: member.color }}
+        title={member.name}
+        aria-hidden="true"
+      >
+        {member.initials}
+      </div>
+    );
+  }
+
+  function renderDueBadge(dueState: DueState, dueDate?: string) {
+    if (!dueState) return null;
+    return (
+      <div className={`due-badge due-badge-${dueState}`} aria-hidden="true">
+        {dueBadgeLabel(dueDate)}
+      </div>
+    );
+  }
+
   // Eine Edge = sichtbare Linie + dicke unsichtbare Hit-Line
   function renderEdgeLine(
     keyBase: string,
@@ -1167,6 +2554,7 @@ const centerTapRef = useRef<{ x: number; y: number; moved: boolean } | null>(nul
   ): JSX.Element {
     const id = edgeKey(parentId, childId);
     const lineColor = edgeColorOverride[id] ?? baseColor;
+    const critical = showCritical && schedule.criticalEdges.has(id);
 
     return (
       <React.Fragment key={keyBase}>
@@ -1201,9 +2589,11 @@ const centerTapRef = useRef<{ x: number; y: number; moved: boolean } | null>(nul
           y1={y1}
           x2={x2}
           y2={y2}
+          className={critical ? "edge-critical" : undefined}
           stroke={lineColor}
           strokeWidth="3"
           strokeLinecap="round"
+          opacity={isNodeDimmed(childId) ? FILTER_DIM_OPACITY : undefined}
           style={{ pointerEvents: "none" }}
         />
       </React.Fragment>
@@ -1215,29 +2605,17 @@ const centerTapRef = useRef<{ x: number; y: number; moved: boolean } | null>(nul
     px: number,
     py: number,
     pr: number,
-    edgeBaseColor: string,
-    gpx: number,
-    gpy: number
+    edgeBaseColor: string
   ): JSX.Element[] {
     const kids = childrenOf(parentId);
     if (kids.length === 0) return [];
     const lines: JSX.Element[] = [];
 
-    const base = Math.atan2(py - gpy, px - gpx);
-    const SPREAD = Math.min(
-      Math.PI,
-      Math.max(Math.PI * 0.6, (kids.length - 1) * (Math.PI / 6))
-    );
-    const step = kids.length === 1 ? 0 : SPREAD / (kids.length - 1);
-    const start = base - SPREAD / 2;
-
-    kids.forEach((kid, idx) => {
-      const ang = start + idx * step;
-      const cxBase = px + Math.cos(ang) * RING;
-      const cyBase = py + Math.sin(ang) * RING;
-      const ko = getOffset(kid.id);
-      const cx = cxBase + ko.x;
-      const cy = cyBase + ko.y;
+    kids.forEach((kid) => {
+      const p = layoutPos[kid.id];
+      if (!p || isHidden(kid.id)) return;
+      const cx = p.x;
+      const cy = p.y;
 
       const seg = segmentBetweenCircles(px, py, pr, cx, cy, R_CHILD);
 
@@ -1260,9 +2638,7 @@ const centerTapRef = useRef<{ x: number; y: number; moved: boolean } | null>(nul
           cx,
           cy,
           R_CHILD,
-          edgeBaseColor,
-          px,
-          py
+          edgeBaseColor
         )
       );
     });
@@ -1272,41 +2648,26 @@ const centerTapRef = useRef<{ x: number; y: number; moved: boolean } | null>(nul
 
   function renderChildNodesWithOffsets(
     parentId: string,
-    px: number,
-    py: number,
-    rootBubbleColor: string,
-    gpx: number,
-    gpy: number,
-    inheritedDone: boolean
+    rootBubbleColor: string
   ): JSX.Element[] {
     const kids = childrenOf(parentId);
     if (kids.length === 0) return [];
     const nodes: JSX.Element[] = [];
 
-    const base = Math.atan2(py - gpy, px - gpx);
-    const SPREAD = Math.min(
-      Math.PI,
-      Math.max(Math.PI * 0.6, (kids.length - 1) * (Math.PI / 6))
-    );
-    const step = kids.length === 1 ? 0 : SPREAD / (kids.length - 1);
-    const start = base - SPREAD / 2;
-
-    kids.forEach((kid, idx) => {
-      const ang = start + idx * step;
-      const cxBase = px + Math.cos(ang) * RING;
-      const cyBase = py + Math.sin(ang) * RING;
-      const ko = getOffset(kid.id);
-      const cx = cxBase + ko.x;
-      const cy = cyBase + ko.y;
+    kids.forEach((kid) => {
+      const p = layoutPos[kid.id];
+      if (!p || isHidden(kid.id)) return;
+      const cx = p.x;
+      const cy = p.y;
 
       const task = getTask(kid.id);
-      const explicitDone =
-        typeof task?.done === "boolean" ? task.done : undefined;
-      const isDone = explicitDone !== undefined ? explicitDone : inheritedDone;
+      const isDone = computeEffectiveDoneForTaskId(kid.id);
+      const dueState = computeDueState(task?.dueDate, isDone);
+      const statusBadge = computeStatusBadge(kid.id, isDone);
 
       const bubbleColor = (() => {
         const t = getTask(kid.id);
-        return t?.parentId ? t.color ?? rootBubbleColor : rootBubbleColor;
+        return t?.parentId ? childBubbleColorFor(t, rootBubbleColor) : rootBubbleColor;
       })();
 
       const isSelectedForRemove = removeMode && removeSelection.has(kid.id);
@@ -1317,13 +2678,22 @@ const centerTapRef = useRef<{ x: number; y: number; moved: boolean } | null>(nul
           className={
             "skill-node child-node" +
             (removeMode ? " node-remove-mode" : "") +
-            (isSelectedForRemove ? " node-remove-selected" : "")
+            (isSelectedForRemove ? " node-remove-selected" : "") +
+            (isNodeDimmed(kid.id) ? " node-filter-dim" : "") +
+            (isAssigneeHit(kid.id) ? " node-assignee-hit" : "") +
+            (isCriticalNode(kid.id) ? " node-critical" : "") +
+            (isLocked(kid.id) ? " node-locked" : "") +
+            (selection.has(kid.id) ? " node-selected" : "") +
+            (isSearchMatch(kid.id) ? " node-search-match" : "") +
+            (searchFocusId === kid.id ? " node-search-hit" : "")
           }
           style={{
             transform: `translate(${cx}px, ${cy}px) translate(-50%, -50%)`,
             background: bubbleColor,
           }}
+          data-node-id={kid.id}
           data-done={isDone ? "true" : "false"}
+          data-due={dueState ?? undefined}
           data-remove-mode={removeMode ? "true" : "false"}
           data-remove-selected={isSelectedForRemove ? "true" : "false"}
           onPointerDown={(e) => {
@@ -1333,6 +2703,7 @@ const centerTapRef = useRef<{ x: number; y: number; moved: boolean } | null>(nul
               onToggleRemoveTarget(kid.id);
               return;
             }
+            if (handleSelectClick(e, kid.id)) return;
 
             // nur Linksklick / Touch
             if (e.pointerType !== "touch" && e.button !== 0) return;
@@ -1363,20 +2734,20 @@ const centerTapRef = useRef<{ x: number; y: number; moved: boolean } | null>(nul
               <span className="done-badge-check">✓</span>
             </div>
           )}
+          {renderStatusBadge(statusBadge)}
+          {renderDueBadge(dueState, task?.dueDate)}
+          {renderNotesBadge(!!task?.notes?.trim())}
+          {renderAvatarChip(assigneeOf(kid.id))}
+          {renderProgressRing(progress.rings.get(kid.id), R_CHILD)}
+          {renderLinkHandle(kid.id)}
+          {renderCollapseToggle(kid.id)}
+          {renderLockBadge(kid.id)}
           {renderTitleAsSpans(kid.title, MAXLEN_ROOT_AND_CHILD)}
         </div>
       );
 
       nodes.push(
-        ...renderChildNodesWithOffsets(
-          kid.id,
-          cx,
-          cy,
-          rootBubbleColor,
-          px,
-          py,
-          isDone
-        )
+        ...renderChildNodesWithOffsets(kid.id, rootBubbleColor)
       );
     });
 
@@ -1397,6 +2768,11 @@ const centerTapRef = useRef<{ x: number; y: number; moved: boolean } | null>(nul
 
   const clamp = (v: number, a: number, b: number) => Math.min(b, Math.max(a, v));
 
+  const exportAssignee = (id: string) => {
+    const m = assigneeOf(id);
+    return m ? { initials: m.initials, color: m.color } : null;
+  };
+
   const computeExportLayout = (): ExportLayout => {
     const nodes: ExportNode[] = [];
     const edges: ExportEdge[] = [];
@@ -1412,48 +2788,38 @@ const centerTapRef = useRef<{ x: number; y: number; moved: boolean } | null>(nul
       title: projectTitle || "Project",
       done: !!centerDone,
       removeSelected: false,
+      dueState: computeDueState(center.dueDate, centerDone),
+      dueDate: center.dueDate,
+      status: null,
+      hasNotes: !!center.notes?.trim(),
+      dimmed: false,
+      assignee: null,
+      branchPercent: null,
+      ringPercent: progress.rings.get(CENTER_ID) ?? null,
+      collapsedCount: null,
     });
 
-    const totalRoots = Math.max(roots.length, 1);
-
     const addChildRec = (
       parentId: string,
       px: number,
       py: number,
       pr: number,
-      gpx: number,
-      gpy: number,
       rootBubbleColor: string,
-      edgeBaseColor: string,
-      inheritedDone: boolean
+      edgeBaseColor: string
     ) => {
       const kids = childrenOf(parentId);
       if (kids.length === 0) return;
 
-      const base = Math.atan2(py - gpy, px - gpx);
-      const SPREAD = Math.min(
-        Math.PI,
-        Math.max(Math.PI * 0.6, (kids.length - 1) * (Math.PI / 6))
-      );
-      const step = kids.length === 1 ? 0 : SPREAD / (kids.length - 1);
-      const start = base - SPREAD / 2;
-
-      kids.forEach((kid, idx) => {
-        const ang = start + idx * step;
-
-        const cxBase = px + Math.cos(ang) * RING;
-        const cyBase = py + Math.sin(ang) * RING;
-
-        const ko = getOffset(kid.id);
-        const cx = cxBase + ko.x;
-        const cy = cyBase + ko.y;
+      kids.forEach((kid) => {
+        const p = layoutPos[kid.id];
+        if (!p || isHidden(kid.id)) return;
+        const cx = p.x;
+        const cy = p.y;
 
         const t = getTask(kid.id);
-        const explicitDone = typeof t?.done === "boolean" ? t.done : undefined;
-        const isDone =
-          explicitDone !== undefined ? explicitDone : inheritedDone;
+        const isDone = computeEffectiveDoneForTaskId(kid.id);
 
-        const bubbleColor = t?.color ?? rootBubbleColor;
+        const bubbleColor = childBubbleColorFor(t, rootBubbleColor);
         const isSelectedForRemove = removeMode && removeSelection.has(kid.id);
 
         nodes.push({
@@ -1466,6 +2832,15 @@ const centerTapRef = useRef<{ x: number; y: number; moved: boolean } | null>(nul
           title: kid.title,
           done: isDone,
           removeSelected: isSelectedForRemove,
+          dueState: computeDueState(t?.dueDate, isDone),
+          dueDate: t?.dueDate,
+          status: computeStatusBadge(kid.id, isDone),
+          hasNotes: !!t?.notes?.trim(),
+          dimmed: isNodeDimmed(kid.id),
+          assignee: exportAssignee(kid.id),
+          branchPercent: null,
+          ringPercent: progress.rings.get(kid.id) ?? null,
+          collapsedCount: collapsedInfo.counts.get(kid.id) ?? null,
         });
 
         const seg = segmentBetweenCircles(px, py, pr, cx, cy, R_CHILD);
@@ -1480,6 +2855,7 @@ const centerTapRef = useRef<{ x: number; y: number; moved: boolean } | null>(nul
           x2: seg.x2,
           y2: seg.y2,
           color: lineColor,
+          dimmed: isNodeDimmed(kid.id),
         });
 
         addChildRec(
@@ -1487,35 +2863,24 @@ const centerTapRef = useRef<{ x: number; y: number; moved: boolean } | null>(nul
           cx,
           cy,
           R_CHILD,
-          px,
-          py,
           rootBubbleColor,
-          edgeBaseColor,
-          isDone
+          edgeBaseColor
         );
       });
     };
 
     // Roots + their subtrees
     roots.forEach((root, i) => {
-      const ang = (i / totalRoots) * Math.PI * 2;
-      const rxBase = Math.cos(ang) * ROOT_RADIUS;
-      const ryBase = Math.sin(ang) * ROOT_RADIUS;
-      const ro = getOffset(root.id);
-      const rx = rxBase + ro.x;
-      const ry = ryBase + ro.y;
+      if (isHidden(root.id)) return;
+      const { x: rx, y: ry } = layoutPos[root.id];
 
       const baseBubbleColor =
-        branchColorOverride[root.id] ??
-        BRANCH_COLORS[i % BRANCH_COLORS.length];
+        rootBubbleColorFor(root.id, i);
       const baseEdgeColor =
         branchEdgeColorOverride[root.id] ?? baseBubbleColor;
 
       const rootTask = getTask(root.id);
-      const explicitRootDone =
-        typeof rootTask?.done === "boolean" ? rootTask.done : undefined;
-      const rootDone =
-        explicitRootDone !== undefined ? explicitRootDone : !!centerDone;
+      const rootDone = computeEffectiveDoneForTaskId(root.id);
 
       const isRootSelectedForRemove = removeMode && removeSelection.has(root.id);
 
@@ -1529,6 +2894,15 @@ const centerTapRef = useRef<{ x: number; y: number; moved: boolean } | null>(nul
         title: root.title,
         done: rootDone,
         removeSelected: isRootSelectedForRemove,
+        dueState: computeDueState(rootTask?.dueDate, rootDone),
+        dueDate: rootTask?.dueDate,
+        status: computeStatusBadge(root.id, rootDone),
+        hasNotes: !!rootTask?.notes?.trim(),
+        dimmed: isNodeDimmed(root.id),
+        assignee: exportAssignee(root.id),
+        branchPercent: progress.branches.get(root.id) ?? null,
+        ringPercent: progress.rings.get(root.id) ?? null,
+        collapsedCount: collapsedInfo.counts.get(root.id) ?? null,
       });
 
       // Center -> Root edge
@@ -1541,6 +2915,7 @@ const centerTapRef = useRef<{ x: number; y: number; moved: boolean } | null>(nul
         x2: seg.x2,
         y2: seg.y2,
         color: baseEdgeColor,
+        dimmed: isNodeDimmed(root.id),
       });
 
       // Children edges + nodes
@@ -1549,11 +2924,8 @@ const centerTapRef = useRef<{ x: number; y: number; moved: boolean } | null>(nul
         rx,
         ry,
         R_ROOT,
-        0,
-        0,
         baseBubbleColor,
-        baseEdgeColor,
-        rootDone
+        baseEdgeColor
       );
     });
 
@@ -1570,6 +2942,23 @@ const centerTapRef = useRef<{ x: number; y: number; moved: boolean } | null>(nul
       maxY = Math.max(maxY, n.y + n.r);
     }
 
+    // Cross-Links zwischen exportierten Nodes (Kurvenscheitel mit in die Bounds)
+    const nodeById = new Map(nodes.map((n) => [n.id, n] as const));
+    const exportLinks: ExportLink[] = [];
+    for (const l of links as TaskLink[]) {
+      const a = nodeById.get(l.from);
+      const b = nodeById.get(l.to);
+      if (!a || !b) continue;
+      const geo = linkGeometry(a, b);
+      exportLinks.push({ id: l.id, kind: l.kind, geo, dimmed: a.dimmed && b.dimmed });
+      const mx = (geo.x1 + 2 * geo.cx + geo.x2) / 4;
+      const my = (geo.y1 + 2 * geo.cy + geo.y2) / 4;
+      minX = Math.min(minX, mx);
+      maxX = Math.max(maxX, mx);
+      minY = Math.min(minY, my);
+      maxY = Math.max(maxY, my);
+    }
+
     // Shadow + Weißrand
     minX -= EXPORT_SHADOW_PAD_X + EXPORT_MIN_PADDING_PX;
     maxX += EXPORT_SHADOW_PAD_X + EXPORT_MIN_PADDING_PX;
@@ -1582,7 +2971,7 @@ const centerTapRef = useRef<{ x: number; y: number; moved: boolean } | null>(nul
     const originX = -minX;
     const originY = -minY;
 
-    return { width, height, originX, originY, nodes, edges };
+    return { width, height, originX, originY, nodes, edges, links: exportLinks };
   };
 
   const pickPixelRatio = (w: number, h: number) => {
@@ -1848,6 +3237,211 @@ const centerTapRef = useRef<{ x: number; y: number; moved: boolean } | null>(nul
     ctx.restore();
   };
 
+  // Status-Punkt links oben (wie .status-badge im DOM)
+  const drawStatusBadge = (
+    ctx: CanvasRenderingContext2D,
+    cx: number,
+    cy: number,
+    r: number,
+    status: { label: string; color: string },
+    fontFamily: string
+  ) => {
+    const badgeR = Math.max(10, Math.round(r * 0.22));
+    const bx = cx - r + badgeR * 0.9;
+    const by = cy - r + badgeR * 0.9;
+
+    ctx.save();
+    ctx.shadowColor = "transparent";
+    ctx.fillStyle = status.color;
+    ctx.beginPath();
+    ctx.arc(bx, by, badgeR, 0, Math.PI * 2);
+    ctx.fill();
+
+    ctx.fillStyle = "#ffffff";
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    ctx.font = `800 ${Math.max(9, Math.round(badgeR * 1.1))}px ${fontFamily}`;
+    ctx.fillText(status.label.trim().charAt(0).toUpperCase(), bx, by + 0.5);
+    ctx.restore();
+  };
+
+  // Notes-Icon unten rechts (wie .notes-badge im DOM)
+  const drawNotesBadge = (
+    ctx: CanvasRenderingContext2D,
+    cx: number,
+    cy: number,
+    r: number,
+    fontFamily: string
+  ) => {
+    const badgeR = Math.max(10, Math.round(r * 0.22));
+    const bx = cx + r - badgeR * 0.9;
+    const by = cy + r - badgeR * 0.9;
+
+    ctx.save();
+    ctx.shadowColor = "transparent";
+    ctx.fillStyle = "#334155";
+    ctx.beginPath();
+    ctx.arc(bx, by, badgeR, 0, Math.PI * 2);
+    ctx.fill();
+
+    ctx.fillStyle = "#ffffff";
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    ctx.font = `800 ${Math.max(9, Math.round(badgeR * 1.15))}px ${fontFamily}`;
+    ctx.fillText("≡", bx, by + 0.5);
+    ctx.restore();
+  };
+
+  // Avatar-Chip unten links (wie .node-avatar im DOM)
+  const drawAvatarBadge = (
+    ctx: CanvasRenderingContext2D,
+    cx: number,
+    cy: number,
+    r: number,
+    assignee: { initials: string; color: string },
+    fontFamily: string
+  ) => {
+    const badgeR = Math.max(10, Math.round(r * 0.24));
+    const bx = cx - r + badgeR * 0.9;
+    const by = cy + r - badgeR * 0.9;
+
+    ctx.save();
+    ctx.shadowColor = "transparent";
+    ctx.fillStyle = assignee.color;
+    ctx.beginPath();
+    ctx.arc(bx, by, badgeR, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.strokeStyle = "#ffffff";
+    ctx.lineWidth = 2;
+    ctx.stroke();
+
+    ctx.fillStyle = "#ffffff";
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    const size = assignee.initials.length > 2 ? 0.62 : 0.78;
+    ctx.font = `800 ${Math.max(8, Math.round(badgeR * size))}px ${fontFamily}`;
+    ctx.fillText(assignee.initials, bx, by + 0.5);
+    ctx.restore();
+  };
+
+  // Due-Pill unten mittig am Kreis (wie .due-badge im DOM)
+  const drawDueBadge = (
+    ctx: CanvasRenderingContext2D,
+    cx: number,
+    cy: number,
+    r: number,
+    dueState: DueState,
+    label: string,
+    fontFamily: string
+  ) => {
+    if (!dueState || !label) return;
+    const fontPx = Math.max(9, Math.round(r * 0.2));
+    ctx.save();
+    ctx.shadowColor = "transparent";
+    ctx.font = `800 ${fontPx}px ${fontFamily}`;
+    const w = ctx.measureText(label).width + fontPx * 1.1;
+    const h = fontPx * 1.6;
+    const bx = cx - w / 2;
+    const by = cy + r - h * 0.75;
+
+    ctx.fillStyle = dueState === "overdue" ? "#ef4444" : "#f59e0b";
+    ctx.beginPath();
+    ctx.roundRect(bx, by, w, h, h / 2);
+    ctx.fill();
+
+    ctx.fillStyle = "#ffffff";
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    ctx.fillText(label, cx, by + h / 2 + 0.5);
+    ctx.restore();
+  };
+
+  // Progress-Ring außen um den Kreis (wie .progress-ring im DOM)
+  const drawProgressRing = (
+    ctx: CanvasRenderingContext2D,
+    cx: number,
+    cy: number,
+    r: number,
+    percent: number
+  ) => {
+    const rr = r + PROGRESS_RING_GAP + PROGRESS_RING_WIDTH / 2;
+    ctx.save();
+    ctx.shadowColor = "transparent";
+    ctx.lineWidth = PROGRESS_RING_WIDTH;
+    ctx.strokeStyle = PROGRESS_RING_TRACK;
+    ctx.beginPath();
+    ctx.arc(cx, cy, rr, 0, Math.PI * 2);
+    ctx.stroke();
+    if (percent > 0) {
+      ctx.strokeStyle = PROGRESS_RING_FILL;
+      ctx.lineCap = percent < 100 ? "round" : "butt";
+      ctx.beginPath();
+      ctx.arc(cx, cy, rr, -Math.PI / 2, -Math.PI / 2 + (Math.PI * 2 * percent) / 100);
+      ctx.stroke();
+    }
+    ctx.restore();
+  };
+
+  // Branch-Progress unter dem Root-Kreis (wie .branch-progress im DOM)
+  const drawBranchProgress = (
+    ctx: CanvasRenderingContext2D,
+    cx: number,
+    cy: number,
+    r: number,
+    percent: number,
+    fontFamily: string
+  ) => {
+    const label = `${percent}%`;
+    const fontPx = 11;
+    ctx.save();
+    ctx.shadowColor = "transparent";
+    ctx.font = `800 ${fontPx}px ${fontFamily}`;
+    const w = ctx.measureText(label).width + fontPx * 1.2;
+    const h = fontPx * 1.6;
+    const by = cy + r + PROGRESS_RING_GAP + PROGRESS_RING_WIDTH + 4;
+
+    ctx.fillStyle = "rgba(15,23,42,.92)";
+    ctx.beginPath();
+    ctx.roundRect(cx - w / 2, by, w, h, h / 2);
+    ctx.fill();
+
+    ctx.fillStyle = "#ffffff";
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    ctx.fillText(label, cx, by + h / 2 + 0.5);
+    ctx.restore();
+  };
+
+  // "+N" links neben eingeklappten Nodes (wie .collapsed-count im DOM)
+  const drawCollapsedCount = (
+    ctx: CanvasRenderingContext2D,
+    cx: number,
+    cy: number,
+    r: number,
+    count: number,
+    fontFamily: string
+  ) => {
+    const label = `+${count}`;
+    const fontPx = 11;
+    ctx.save();
+    ctx.shadowColor = "transparent";
+    ctx.font = `800 ${fontPx}px ${fontFamily}`;
+    const w = ctx.measureText(label).width + fontPx * 1.2;
+    const h = fontPx * 1.6;
+    const bx = cx - r - 14 - w;
+
+    ctx.fillStyle = "#0ea5e9";
+    ctx.beginPath();
+    ctx.roundRect(bx, cy - h / 2, w, h, h / 2);
+    ctx.fill();
+
+    ctx.fillStyle = "#ffffff";
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    ctx.fillText(label, bx + w / 2, cy + 0.5);
+    ctx.restore();
+  };
+
   const captureExportCanvasSafari = async (): Promise<ExportCapture> => {
     if (exportBusy.current) throw new Error("Export already in progress");
     exportBusy.current = true;
@@ -1894,6 +3488,7 @@ const centerTapRef = useRef<{ x: number; y: number; moved: boolean } | null>(nul
       ctx.lineCap = "round";
       ctx.lineWidth = 3;
       for (const e of layout.edges) {
+        ctx.globalAlpha = e.dimmed ? FILTER_DIM_OPACITY : 1;
         ctx.strokeStyle = e.color;
         ctx.beginPath();
         ctx.moveTo(layout.originX + e.x1, layout.originY + e.y1);
@@ -1902,6 +3497,33 @@ const centerTapRef = useRef<{ x: number; y: number; moved: boolean } | null>(nul
       }
       ctx.restore();
 
+      // cross-links (über den Kanten, unter den Nodes)
+      ctx.save();
+      ctx.lineWidth = 2.5;
+      for (const l of layout.links) {
+        const st = linkStyle(l.kind);
+        const ox = layout.originX;
+        const oy = layout.originY;
+        ctx.globalAlpha = l.dimmed ? FILTER_DIM_OPACITY : 1;
+        ctx.strokeStyle = st.color;
+        ctx.fillStyle = st.color;
+        ctx.setLineDash(st.dash ? st.dash.split(" ").map(Number) : []);
+        ctx.beginPath();
+        ctx.moveTo(ox + l.geo.x1, oy + l.geo.y1);
+        ctx.quadraticCurveTo(ox + l.geo.cx, oy + l.geo.cy, ox + l.geo.x2, oy + l.geo.y2);
+        ctx.stroke();
+        if (st.arrow) {
+          ctx.setLineDash([]);
+          ctx.beginPath();
+          l.geo.head.forEach(([x, y], i) =>
+            i ? ctx.lineTo(ox + x, oy + y) : ctx.moveTo(ox + x, oy + y)
+          );
+          ctx.closePath();
+          ctx.fill();
+        }
+      }
+      ctx.restore();
+
       // nodes
       for (const n of layout.nodes) {
         const cx = layout.originX + n.x;
@@ -1960,6 +3582,33 @@ const centerTapRef = useRef<{ x: number; y: number; moved: boolean } | null>(nul
         if (n.done) {
           drawDoneBadge(ctx, cx, cy, n.r, styleForNode.fontFamily);
         }
+        if (n.status && !removeMode) {
+          drawStatusBadge(ctx, cx, cy, n.r, n.status, styleForNode.fontFamily);
+        }
+        if (n.hasNotes) {
+          drawNotesBadge(ctx, cx, cy, n.r, styleForNode.fontFamily);
+        }
+        if (n.assignee) {
+          drawAvatarBadge(ctx, cx, cy, n.r, n.assignee, styleForNode.fontFamily);
+        }
+        if (n.ringPercent !== null) {
+          drawProgressRing(ctx, cx, cy, n.r, n.ringPercent);
+        }
+        if (n.branchPercent !== null) {
+          drawBranchProgress(ctx, cx, cy, n.r, n.branchPercent, styleForNode.fontFamily);
+        }
+        if (n.collapsedCount !== null) {
+          drawCollapsedCount(ctx, cx, cy, n.r, n.collapsedCount, styleForNode.fontFamily);
+        }
+        drawDueBadge(
+          ctx,
+          cx,
+          cy,
+          n.r,
+          n.dueState,
+          dueBadgeLabel(n.dueDate),
+          styleForNode.fontFamily
+        );
 
         // text
         ctx.fillStyle = styleForNode.color;
@@ -1977,8 +3626,19 @@ const centerTapRef = useRef<{ x: number; y: number; moved: boolean } | null>(nul
         for (let i = 0; i < lines.length; i++) {
           drawTextCentered(ctx, lines[i], cx, startY + i * lh, styleForNode);
         }
-
-        ctx.restore();
+
+        ctx.restore();
+
+        // Filter "dim": Node mit Hintergrund überblenden (≈ opacity im DOM)
+        if (n.dimmed) {
+          ctx.save();
+          ctx.globalAlpha = 1 - FILTER_DIM_OPACITY;
+          ctx.fillStyle = "#ffffff";
+          ctx.beginPath();
+          ctx.arc(cx, cy, n.r + 2, 0, Math.PI * 2);
+          ctx.fill();
+          ctx.restore();
+        }
       }
 
       const dataUrl = canvas.toDataURL("image/png");
@@ -2062,11 +3722,232 @@ const centerTapRef = useRef<{ x: number; y: number; moved: boolean } | null>(nul
     setPan({ x: 0, y: 0 });
   };
 
+  /* ---------- Fit: Bounds aus dem Layout (wie Export), animiert ---------- */
+  const hoverNodeRef = useRef<string | null>(null);
+
+  // ids = null -> ganze Map; ausgeblendete/eingeklappte Nodes zählen nicht (wie im Export)
+  function fitToIds(ids: Set<string> | null) {
+    const rect = wrapperRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    const nodes = computeExportLayout().nodes.filter((n) => !ids || ids.has(n.id));
+    if (!nodes.length) return;
+
+    const m = PROGRESS_RING_GAP + PROGRESS_RING_WIDTH;
+    let minX = Number.POSITIVE_INFINITY;
+    let minY = Number.POSITIVE_INFINITY;
+    let maxX = Number.NEGATIVE_INFINITY;
+    let maxY = Number.NEGATIVE_INFINITY;
+    for (const n of nodes) {
+      minX = Math.min(minX, n.x - n.r - m);
+      maxX = Math.max(maxX, n.x + n.r + m);
+      minY = Math.min(minY, n.y - n.r - m);
+      maxY = Math.max(maxY, n.y + n.r + m);
+    }
+
+    const fit = Math.min(
+      (rect.width - FIT_PADDING * 2) / (maxX - minX),
+      (rect.height - FIT_PADDING * 2) / (maxY - minY)
+    );
+    const next = Math.min(MAX_Z, Math.max(MIN_Z, fit));
+    centerOnWorld((minX + maxX) / 2, (minY + maxY) / 2, next);
+  }
+
+  const fitMap = () => fitToIds(null);
+
+  const fitSubtree = (id: string) =>
+    fitToIds(id === CENTER_ID ? null : collectSubtreeIds(tasks, id));
+
+  // Auswahl: markierte Tasks im Remove-Modus, sonst die Map-Auswahl, sonst die Treffer der offenen Suche
+  const fitSelection = () => {
+    const ids: Set<string> =
+      removeMode && removeSelection.size
+        ? removeSelection
+        : selection.size
+        ? selection
+        : searchOpen
+        ? searchMatchIds
+        : new Set<string>();
+    if (ids.size) fitToIds(ids);
+  };
+
+  useEffect(() => {
+    if (!active) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!e.shiftKey || e.ctrlKey || e.metaKey || e.altKey) return;
+      const el = e.target as HTMLElement | null;
+      if (el?.closest?.("input, textarea, select, [contenteditable='true']")) return;
+      if (e.code === "Digit1") fitMap();
+      else if (e.code === "Digit2") fitSelection();
+      else if (e.code === "Digit3") {
+        const id = hoverNodeRef.current ?? searchFocusId;
+        if (id) fitSubtree(id);
+      } else return;
+      e.preventDefault();
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  });
+
+  /* ---------- Minimap: Layout als Thumbnail + Viewport-Rahmen ---------- */
+  const [showMinimap, setShowMinimap] = useState(false);
+  const [wrapperSize, setWrapperSize] = useState({ w: 0, h: 0 });
+
+  useEffect(() => {
+    if (!active || (!showMinimap && !snap.grid)) return;
+    const el = wrapperRef.current;
+    if (!el) return;
+    const update = () =>
+      setWrapperSize((prev) =>
+        prev.w === el.clientWidth && prev.h === el.clientHeight
+          ? prev
+          : { w: el.clientWidth, h: el.clientHeight }
+      );
+    update();
+    const ro = new ResizeObserver(update);
+    ro.observe(el);
+    return () => ro.disconnect();
+  }, [active, showMinimap, snap.grid]);
+
+  /* ---------- Einrasten: Welt-Raster + Hilfslinien beim Ziehen ---------- */
+  function renderSnapGrid() {
+    if (!snap.grid || !wrapperSize.w) return null;
+    const g = snap.gridSize;
+    // sichtbarer Ausschnitt, auf Rasterlinien erweitert
+    const x0 = Math.floor((-pan.x / scale - wrapperSize.w / 2) / g) * g;
+    const y0 = Math.floor((-pan.y / scale - wrapperSize.h / 2) / g) * g;
+    const w = Math.ceil(wrapperSize.w / scale / g + 1) * g;
+    const h = Math.ceil(wrapperSize.h / scale / g + 1) * g;
+    return (
+      <g className="map-grid map-export-hide" pointerEvents="none">
+        <defs>
+          <pattern id="map-grid-pattern" width={g} height={g} patternUnits="userSpaceOnUse">
+            <path d={`M ${g} 0 L 0 0 0 ${g}`} fill="none" strokeWidth={1 / scale} />
+          </pattern>
+        </defs>
+        <rect x={x0} y={y0} width={w} height={h} fill="url(#map-grid-pattern)" />
+      </g>
+    );
+  }
+
+  function renderSnapGuides() {
+    if (!snapGuides.length) return null;
+    return (
+      <g className="snap-guides map-export-hide" pointerEvents="none">
+        {snapGuides.map((gd, i) => {
+          const pad = R_ROOT;
+          return gd.axis === "x" ? (
+            <line key={i} x1={gd.value} y1={gd.from - pad} x2={gd.value} y2={gd.to + pad} strokeWidth={1 / scale} />
+          ) : (
+            <line key={i} x1={gd.from - pad} y1={gd.value} x2={gd.to + pad} y2={gd.value} strokeWidth={1 / scale} />
+          );
+        })}
+      </g>
+    );
+  }
+
+  function renderMinimap() {
+    if (!showMinimap)
+      return (
+        <button
+          className="minimap-toggle map-export-hide"
+          onPointerDown={(e) => e.stopPropagation()}
+          onClick={() => setShowMinimap(true)}
+        >
+          Minimap
+        </button>
+      );
+
+    const layout = computeExportLayout();
+    const k = Math.min(MINIMAP_W / layout.width, MINIMAP_H / layout.height);
+    const mx = (x: number) => (layout.originX + x) * k;
+    const my = (y: number) => (layout.originY + y) * k;
+
+    // sichtbarer Welt-Ausschnitt: Umkehrung von translate(pan) scale(scale)
+    const vx = -pan.x / scale - wrapperSize.w / 2;
+    const vy = -pan.y / scale - wrapperSize.h / 2;
+
+    const navigate = (e: React.PointerEvent<SVGSVGElement>) => {
+      const r = e.currentTarget.getBoundingClientRect();
+      const next = panForWorldCenter(
+        (e.clientX - r.left) / k - layout.originX,
+        (e.clientY - r.top) / k - layout.originY,
+        scale
+      );
+      if (next) setPan(next);
+    };
+
+    return (
+      <div
+        className="minimap map-export-hide"
+        onPointerDown={(e) => e.stopPropagation()}
+        onWheel={(e) => e.stopPropagation()}
+      >
+        <button
+          className="minimap-close"
+          onClick={() => setShowMinimap(false)}
+          aria-label="Hide minimap"
+        >
+          ✕
+        </button>
+        <svg
+          width={layout.width * k}
+          height={layout.height * k}
+          onPointerDown={(e) => {
+            if (viewAnimRef.current) cancelAnimationFrame(viewAnimRef.current);
+            e.currentTarget.setPointerCapture(e.pointerId);
+            navigate(e);
+          }}
+          onPointerMove={(e) => {
+            if (e.currentTarget.hasPointerCapture(e.pointerId)) navigate(e);
+          }}
+        >
+          {layout.edges.map((e) => (
+            <line
+              key={`${e.parentId}-${e.childId}`}
+              x1={mx(e.x1)}
+              y1={my(e.y1)}
+              x2={mx(e.x2)}
+              y2={my(e.y2)}
+              stroke={e.color}
+              strokeWidth={1.5}
+              opacity={e.dimmed ? FILTER_DIM_OPACITY : undefined}
+            />
+          ))}
+          {layout.nodes.map((n) => (
+            <circle
+              key={n.id}
+              cx={mx(n.x)}
+              cy={my(n.y)}
+              r={Math.max(1.5, n.r * k)}
+              fill={n.bubbleColor}
+              opacity={n.dimmed ? FILTER_DIM_OPACITY : undefined}
+            />
+          ))}
+          <rect
+            className="minimap-viewport"
+            x={mx(vx)}
+            y={my(vy)}
+            width={(wrapperSize.w / scale) * k}
+            height={(wrapperSize.h / scale) * k}
+          />
+        </svg>
+      </div>
+    );
+  }
+
   useImperativeHandle(ref, () => ({
     exportPNG: doDownloadPNG,
     exportJPG: doDownloadPNG, // Alias
     exportPDF: doDownloadPDF,
     resetView,
+    fitMap,
+    fitSelection,
+    fitSubtree,
+    expandToDepth,
+    tidyUp,
+    getSelection: () => [...selection],
+    setSelection: (ids: string[]) =>
+      setSelection(new Set(ids.filter((id) => tasks.some((t: Task) => t.id === id)))),
   }));
 
   /* ---------- Angle HUD (append-only) ---------- */
@@ -2135,73 +4016,8 @@ const centerTapRef = useRef<{ x: number; y: number; moved: boolean } | null>(nul
     el.style.display = "none";
   };
 
-  // Positionen genau wie euer Render (roots radial + children spread)
-  const angleHudComputePosMap = (): Record<string, { x: number; y: number }> => {
-    const pos: Record<string, { x: number; y: number }> = {};
-    pos[CENTER_ID] = { x: 0, y: 0 };
-
-    // adjacency
-    const byParent = new Map<string, Task[]>();
-    for (const t of tasks) {
-      if (!t.parentId) continue;
-      const arr = byParent.get(t.parentId) || [];
-      arr.push(t);
-      byParent.set(t.parentId, arr);
-    }
-
-    const totalRoots = Math.max(roots.length, 1);
-
-    const rec = (
-      parentId: string,
-      px: number,
-      py: number,
-      gpx: number,
-      gpy: number
-    ) => {
-      const kids = byParent.get(parentId) || [];
-      if (kids.length === 0) return;
-
-      const base = Math.atan2(py - gpy, px - gpx);
-      const SPREAD = Math.min(
-        Math.PI,
-        Math.max(Math.PI * 0.6, (kids.length - 1) * (Math.PI / 6))
-      );
-      const step = kids.length === 1 ? 0 : SPREAD / (kids.length - 1);
-      const start = base - SPREAD / 2;
-
-      for (let idx = 0; idx < kids.length; idx++) {
-        const kid = kids[idx];
-        const ang = start + idx * step;
-
-        const cxBase = px + Math.cos(ang) * RING;
-        const cyBase = py + Math.sin(ang) * RING;
-
-        const ko = getOffset(kid.id);
-        const cx = cxBase + ko.x;
-        const cy = cyBase + ko.y;
-
-        pos[kid.id] = { x: cx, y: cy };
-        rec(kid.id, cx, cy, px, py);
-      }
-    };
-
-    for (let i = 0; i < roots.length; i++) {
-      const root = roots[i];
-      const ang = (i / totalRoots) * Math.PI * 2;
-
-      const rxBase = Math.cos(ang) * ROOT_RADIUS;
-      const ryBase = Math.sin(ang) * ROOT_RADIUS;
-
-      const ro = getOffset(root.id);
-      const rx = rxBase + ro.x;
-      const ry = ryBase + ro.y;
-
-      pos[root.id] = { x: rx, y: ry };
-      rec(root.id, rx, ry, 0, 0);
-    }
-
-    return pos;
-  };
+  // Positionen genau wie der Render (Layout-Engine)
+  const angleHudComputePosMap = (): Record<string, { x: number; y: number }> => layoutPos;
 
   const angleHudGetPosMapNow = () => {
     const m = angleHudPosRef.current;
@@ -2213,7 +4029,7 @@ const centerTapRef = useRef<{ x: number; y: number; moved: boolean } | null>(nul
   useEffect(() => {
     angleHudPosRef.current = angleHudComputePosMap();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [tasks, nodeOffset, roots.length]);
+  }, [layoutPos]);
 
   // Hide if view becomes inactive or remove-mode toggled
   useEffect(() => {
@@ -2242,7 +4058,7 @@ const centerTapRef = useRef<{ x: number; y: number; moved: boolean } | null>(nul
     const parentId = t.parentId ?? CENTER_ID;
 
     const posMap = angleHudGetPosMapNow();
-    const curOff = getOffset(nodeId);
+    const curOff = dragStartOffset(nodeId);
     const curPos = posMap[nodeId] ?? { x: curOff.x, y: curOff.y };
 
     // base world position without this node's offset
@@ -2277,7 +4093,8 @@ const centerTapRef = useRef<{ x: number; y: number; moved: boolean } | null>(nul
     angleHudUpdateLive(nodeId, curOff.x, curOff.y);
   }
 
-  function angleHudUpdateLive(nodeId: string, nextOffX: number, nextOffY: number) {
+  // showDist: Abstand zum Parent mit anzeigen (Abstands-Raster aktiv)
+  function angleHudUpdateLive(nodeId: string, nextOffX: number, nextOffY: number, showDist = false) {
     const st = angleHudStateRef.current;
     if (!st || !st.active) return;
     if (st.id !== nodeId) return;
@@ -2294,7 +4111,8 @@ const centerTapRef = useRef<{ x: number; y: number; moved: boolean } | null>(nul
     const nodeY = st.baseY + nextOffY;
 
     const deg = angleHudComputeDeg(parentPos.x, parentPos.y, nodeX, nodeY);
-    const txt = `${Math.round(deg)}°`;
+    const dist = Math.hypot(nodeX - parentPos.x, nodeY - parentPos.y);
+    const txt = showDist ? `${Math.round(deg)}° · ${Math.round(dist)}px` : `${Math.round(deg)}°`;
 
     const el = angleHudEnsureEl();
     el.textContent = txt;
@@ -2354,6 +4172,12 @@ const centerTapRef = useRef<{ x: number; y: number; moved: boolean } | null>(nul
         onPointerMove={onPointerMoveMap}
         onPointerUp={onPointerUpMap}
         onPointerCancel={onPointerUpMap}
+        onPointerOver={(e) => {
+          // Node unter dem Zeiger (Shift+3 = Subtree einpassen)
+          hoverNodeRef.current =
+            (e.target as HTMLElement).closest?.("[data-node-id]")?.getAttribute("data-node-id") ??
+            null;
+        }}
         onWheel={onWheel}
       >
         <div
@@ -2365,20 +4189,16 @@ const centerTapRef = useRef<{ x: number; y: number; moved: boolean } | null>(nul
         >
           <div className="map-origin">
             <svg className="map-svg" viewBox="-2000 -2000 4000 4000">
+              {renderSnapGrid()}
+
               {/* Center -> Root Edges */}
               {roots.map((root, i) => {
-                const total = Math.max(roots.length, 1);
-                const ang = (i / total) * Math.PI * 2;
-                const rxBase = Math.cos(ang) * ROOT_RADIUS;
-                const ryBase = Math.sin(ang) * ROOT_RADIUS;
-                const ro = getOffset(root.id);
-                const rx = rxBase + ro.x;
-                const ry = ryBase + ro.y;
+                if (isHidden(root.id)) return null;
+                const { x: rx, y: ry } = layoutPos[root.id];
                 const seg = segmentBetweenCircles(0, 0, R_CENTER, rx, ry, R_ROOT);
 
                 const baseBubbleColor =
-                  branchColorOverride[root.id] ??
-                  BRANCH_COLORS[i % BRANCH_COLORS.length];
+                  rootBubbleColorFor(root.id, i);
                 const baseEdgeColor =
                   branchEdgeColorOverride[root.id] ?? baseBubbleColor;
 
@@ -2396,17 +4216,11 @@ const centerTapRef = useRef<{ x: number; y: number; moved: boolean } | null>(nul
 
               {/* Child-Edges */}
               {roots.flatMap((root, i) => {
-                const total = Math.max(roots.length, 1);
-                const ang = (i / total) * Math.PI * 2;
-                const rxBase = Math.cos(ang) * ROOT_RADIUS;
-                const ryBase = Math.sin(ang) * ROOT_RADIUS;
-                const ro = getOffset(root.id);
-                const rx = rxBase + ro.x;
-                const ry = ryBase + ro.y;
+                if (isHidden(root.id)) return [];
+                const { x: rx, y: ry } = layoutPos[root.id];
 
                 const baseBubbleColor =
-                  branchColorOverride[root.id] ??
-                  BRANCH_COLORS[i % BRANCH_COLORS.length];
+                  rootBubbleColorFor(root.id, i);
                 const baseEdgeColor =
                   branchEdgeColorOverride[root.id] ?? baseBubbleColor;
 
@@ -2415,11 +4229,17 @@ const centerTapRef = useRef<{ x: number; y: number; moved: boolean } | null>(nul
                   rx,
                   ry,
                   R_ROOT,
-                  baseEdgeColor,
-                  0,
-                  0
+                  baseEdgeColor
                 );
               })}
+
+              {/* Cross-Links (blocks / depends on / relates to) */}
+              {renderLiveLinks()}
+
+              {/* Critical Path: Vorgänger-Beziehungen außerhalb des Baums */}
+              {renderCriticalOverlay()}
+
+              {renderSnapGuides()}
             </svg>
 
             {/* Center Node */}
@@ -2427,6 +4247,7 @@ const centerTapRef = useRef<{ x: number; y: number; moved: boolean } | null>(nul
               className="skill-node center-node"
               style={{ background: centerColor }}
               data-done={centerDone ? "true" : "false"}
+              data-due={centerDueState ?? undefined}
               onContextMenu={(e) => {
                 e.preventDefault();
                 e.stopPropagation();
@@ -2486,31 +4307,27 @@ onPointerMove={(e) => {
                   <span className="done-badge-check">✓</span>
                 </div>
               )}
+              {renderDueBadge(centerDueState, center.dueDate)}
+              {renderNotesBadge(!!center.notes?.trim())}
+              {renderProgressRing(progress.rings.get(CENTER_ID), R_CENTER)}
               {renderTitleAsSpans(projectTitle || "Project", MAXLEN_CENTER)}
             </div>
 
             {/* Roots + Children */}
             {roots.map((root, i) => {
-              const total = Math.max(roots.length, 1);
-              const ang = (i / total) * Math.PI * 2;
-              const rxBase = Math.cos(ang) * ROOT_RADIUS;
-              const ryBase = Math.sin(ang) * ROOT_RADIUS;
-              const ro = getOffset(root.id);
-              const rx = rxBase + ro.x;
-              const ry = ryBase + ro.y;
+              if (isHidden(root.id)) return null;
+              const { x: rx, y: ry } = layoutPos[root.id];
 
               const rootBubbleColor =
-                branchColorOverride[root.id] ??
-                BRANCH_COLORS[i % BRANCH_COLORS.length];
+                rootBubbleColorFor(root.id, i);
 
               const rootTask = getTask(root.id);
-              const explicitRootDone =
-                typeof rootTask?.done === "boolean" ? rootTask.done : undefined;
-              const rootDone =
-                explicitRootDone !== undefined ? explicitRootDone : centerDone;
+              const rootDone = computeEffectiveDoneForTaskId(root.id);
 
               const isRootSelectedForRemove =
                 removeMode && removeSelection.has(root.id);
+              const rootDueState = computeDueState(rootTask?.dueDate, rootDone);
+              const rootStatusBadge = computeStatusBadge(root.id, rootDone);
 
               return (
                 <React.Fragment key={`root-node-${root.id}`}>
@@ -2518,13 +4335,22 @@ onPointerMove={(e) => {
                     className={
                       "skill-node root-node" +
                       (removeMode ? " node-remove-mode" : "") +
-                      (isRootSelectedForRemove ? " node-remove-selected" : "")
+                      (isRootSelectedForRemove ? " node-remove-selected" : "") +
+                      (isNodeDimmed(root.id) ? " node-filter-dim" : "") +
+                      (isAssigneeHit(root.id) ? " node-assignee-hit" : "") +
+                      (isCriticalNode(root.id) ? " node-critical" : "") +
+                      (isLocked(root.id) ? " node-locked" : "") +
+                      (selection.has(root.id) ? " node-selected" : "") +
+                      (isSearchMatch(root.id) ? " node-search-match" : "") +
+                      (searchFocusId === root.id ? " node-search-hit" : "")
                     }
                     style={{
                       transform: `translate(${rx}px, ${ry}px) translate(-50%, -50%)`,
                       background: rootBubbleColor,
                     }}
+                    data-node-id={root.id}
                     data-done={rootDone ? "true" : "false"}
+                    data-due={rootDueState ?? undefined}
                     data-remove-mode={removeMode ? "true" : "false"}
                     data-remove-selected={
                       isRootSelectedForRemove ? "true" : "false"
@@ -2536,6 +4362,7 @@ onPointerMove={(e) => {
                         onToggleRemoveTarget(root.id);
                         return;
                       }
+                      if (handleSelectClick(e, root.id)) return;
 
                       if (e.pointerType !== "touch" && e.button !== 0) return;
 
@@ -2565,28 +4392,94 @@ onPointerMove={(e) => {
                         <span className="done-badge-check">✓</span>
                       </div>
                     )}
+                    {renderStatusBadge(rootStatusBadge)}
+                    {renderDueBadge(rootDueState, rootTask?.dueDate)}
+                    {renderNotesBadge(!!rootTask?.notes?.trim())}
+                    {renderAvatarChip(assigneeOf(root.id))}
+                    {renderBranchProgress(progress.branches.get(root.id))}
+                    {renderProgressRing(progress.rings.get(root.id), R_ROOT)}
+                    {renderLinkHandle(root.id)}
+                    {renderCollapseToggle(root.id)}
+                    {renderLockBadge(root.id)}
                     {renderTitleAsSpans(root.title, MAXLEN_ROOT_AND_CHILD)}
                   </div>
 
-                  {renderChildNodesWithOffsets(
-                    root.id,
-                    rx,
-                    ry,
-                    rootBubbleColor,
-                    0,
-                    0,
-                    rootDone
-                  )}
+                  {renderChildNodesWithOffsets(root.id, rootBubbleColor)}
                 </React.Fragment>
               );
             })}
           </div>
         </div>
 
+        {/* Minimap (Ecke unten links, nicht im Export) */}
+        {active && renderMinimap()}
+
+        {/* Lasso-Rechteck (Shift + Ziehen) */}
+        {lasso && (
+          <div
+            className="map-lasso"
+            style={{
+              left: Math.min(lasso.x1, lasso.x2),
+              top: Math.min(lasso.y1, lasso.y2),
+              width: Math.abs(lasso.x2 - lasso.x1),
+              height: Math.abs(lasso.y2 - lasso.y1),
+            }}
+          />
+        )}
+
         {/* Progress-HUD: nur wenn Map sichtbar (sonst fixed overlay im Edit) */}
         {active && totalTasks > 0 && (
           <div className="map-progress map-export-hide">
-            <div className="map-progress-label">Progress</div>
+            <div className="map-progress-head">
+              <select
+                className="map-progress-mode"
+                value={progressMode}
+                onChange={(e) => setProgressMode(e.target.value as ProgressMode)}
+                onPointerDown={(e) => e.stopPropagation()}
+                title="Which tasks count towards progress"
+              >
+                {PROGRESS_MODES.map((m) => (
+                  <option key={m.id} value={m.id}>
+                    {m.label}
+                  </option>
+                ))}
+              </select>
+              <div className="map-progress-label">
+                {progress.weighted ? "Progress · weighted" : "Progress"}
+              </div>
+            </div>
+            <label className="map-progress-toggle" onPointerDown={(e) => e.stopPropagation()}>
+              <input
+                type="checkbox"
+                checked={showProgressRings}
+                onChange={(e) => setShowProgressRings(e.target.checked)}
+              />
+              Rings
+            </label>
+            <label
+              className="map-progress-toggle"
+              onPointerDown={(e) => e.stopPropagation()}
+              title="Parents show as done when all their subtasks are done"
+            >
+              <input
+                type="checkbox"
+                checked={doneRollup}
+                onChange={(e) => setDoneRollup(e.target.checked)}
+              />
+              Roll up done
+            </label>
+            <label
+              className="map-progress-toggle"
+              onPointerDown={(e) => e.stopPropagation()}
+              title="Highlight the critical path and show the schedule"
+            >
+              <input
+                type="checkbox"
+                checked={showCritical}
+                onChange={(e) => setShowCritical(e.target.checked)}
+              />
+              Critical path
+            </label>
             <div className="map-progress-row">
               <div className="map-progress-bar" aria-hidden="true">
                 <div
@@ -2599,6 +4492,357 @@ onPointerMove={(e) => {
           </div>
         )}
 
+        {/* Filter: Tags (Chips, dim/hide, optional Bubble-Farben) + "Assigned to" */}
+        {active && (allTags.length > 0 || members.length > 0) && (
+          <div
+            className="tag-filterbar map-export-hide"
+            onPointerDown={(e) => e.stopPropagation()}
+          >
+            {allTags.length > 0 && (
+              <>
+                <div className="tag-filterbar-row">
+                  <span className="tag-filterbar-label">Tags</span>
+                  {allTags.map((tag) => {
+                    const on = activeTagFilter.includes(tagKey(tag));
+                    return (
+                      <span
+                        key={tag}
+                        className={"tag-filter-chip" + (on ? " tag-filter-chip-on" : "")}
+                        style={{ borderColor: tagColor(tag, tagColors) }}
+                      >
+                        {colorByTags && (
+                          <input
+                            type="color"
+                            className="tag-filter-color"
+                            value={tagColor(tag, tagColors)}
+                            onChange={(e) =>
+                              setTagColors((prev: Record<string, string>) => ({
+                                ...prev,
+                                [tagKey(tag)]: e.target.value,
+                              }))
+                            }
+                            title={`Color for "${tag}"`}
+                          />
+                        )}
+                        <button onClick={() => toggleTagFilter(tag)}>{tag}</button>
+                      </span>
+                    );
+                  })}
+                </div>
+                <div className="tag-filterbar-row">
+                  <select
+                    className="tag-filterbar-select"
+                    value={tagFilterMode}
+                    onChange={(e) => setTagFilterMode(e.target.value as "dim" | "hide")}
+                    disabled={!activeTagFilter.length}
+                  >
+                    <option value="dim">Dim others</option>
+                    <option value="hide">Hide others</option>
+                  </select>
+                  {activeTagFilter.length > 0 && (
+                    <button className="tag-filterbar-btn" onClick={() => setTagFilter([])}>
+                      Clear
+                    </button>
+                  )}
+                  <label className="tag-filterbar-toggle">
+                    <input
+                      type="checkbox"
+                      checked={colorByTags}
+                      onChange={(e) => setColorByTags(e.target.checked)}
+                    />
+                    Color by tags
+                  </label>
+                </div>
+              </>
+            )}
+            {members.length > 0 && (
+              <div className="tag-filterbar-row">
+                <span className="tag-filterbar-label">Assigned to</span>
+                <select
+                  className="tag-filterbar-select"
+                  value={activeAssignee ?? ""}
+                  onChange={(e) => setAssigneeFilter(e.target.value || null)}
+                >
+                  <option value="">Everyone</option>
+                  {members.map((m: Member) => (
+                    <option key={m.id} value={m.id}>
+                      {m.name || m.initials}
+                    </option>
+                  ))}
+                </select>
+                {activeAssignee && (
+                  <button
+                    className="tag-filterbar-btn"
+                    onClick={() => setAssigneeFilter(null)}
+                  >
+                    Clear
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Auswahl-Leiste: Bulk-Aktionen für Shift-Klick/Lasso-Auswahl */}
+        {active && selectedTasks.length > 0 && (
+          <div
+            className="selection-bar map-export-hide"
+            onPointerDown={(e) => e.stopPropagation()}
+          >
+            <span className="selection-bar-count">{selectedTasks.length} selected</span>
+            <div className="selection-bar-color">
+              <button
+                className="ctxmenu-doneBtn"
+                onClick={() => setSelectionColorOpen((o) => !o)}
+              >
+                Color
+              </button>
+              {selectionColorOpen && (
+                <div className="selection-bar-swatches ctxmenu-swatches">
+                  {COLOR_SWATCHES.map((hex) => (
+                    <button
+                      key={hex}
+                      className="ctxmenu-swatch"
+                      style={{ background: hex }}
+                      onClick={() => applySelectionColor(hex)}
+                      aria-label={`Color ${hex}`}
+                    />
+                  ))}
+                </div>
+              )}
+            </div>
+            <button
+              className={
+                "ctxmenu-doneBtn" +
+                (selectedTasks.every((t) => computeEffectiveDoneForTaskId(t.id))
+                  ? " ctxmenu-doneBtn-active"
+                  : "")
+              }
+              onClick={toggleSelectionDone}
+            >
+              Done
+            </button>
+            <div className="selection-bar-tags">
+              <TagEditor
+                tags={selectionTags}
+                onChange={setSelectionTags}
+                suggestions={allTags}
+                tagColors={tagColors}
+                placeholder="Tag all…"
+              />
+            </div>
+            <select
+              className="selection-bar-select"
+              value=""
+              onChange={(e) => e.target.value && reparentSelection(e.target.value)}
+              aria-label="Move selection under"
+            >
+              <option value="">Move under…</option>
+              <option value={CENTER_ID}>{projectTitle || "Project"} (top level)</option>
+              {reparentTargets().map((t) => (
+                <option key={t.id} value={t.id}>
+                  {[...parentPathTitles(tasks, t), t.title || "Untitled"].join(" › ")}
+                </option>
+              ))}
+            </select>
+            <button className="ctxmenu-doneBtn selection-bar-delete" onClick={deleteSelection}>
+              Delete
+            </button>
+            <button
+              className="ctxmenu-doneBtn"
+              onClick={clearSelection}
+              title="Clear selection (Esc)"
+              aria-label="Clear selection"
+            >
+              ✕
+            </button>
+          </div>
+        )}
+
+        {/* Suche: Treffer mit Pfad, Enter/Shift+Enter blättert */}
+        {active && searchOpen && (
+          <div
+            className="map-search map-export-hide"
+            onPointerDown={(e) => e.stopPropagation()}
+          >
+            <div className="map-search-bar">
+              <input
+                ref={searchInputRef}
+                className="map-search-input"
+                value={searchQuery}
+                placeholder="Search tasks, tags, notes…"
+                autoFocus
+                onChange={(e) => {
+                  setSearchQuery(e.target.value);
+                  setSearchIndex(-1);
+                }}
+                onKeyDown={(e) => {
+                  if (e.key === "Escape") closeSearch();
+                  if (e.key !== "Enter") return;
+                  e.preventDefault();
+                  if (searchIndex < 0) goToSearchHit(e.shiftKey ? -1 : 0);
+                  else goToSearchHit(searchIndex + (e.shiftKey ? -1 : 1));
+                }}
+              />
+              <span className="map-search-count">
+                {searchQuery.trim()
+                  ? searchHits.length
+                    ? `${searchIndex + 1}/${searchHits.length}`
+                    : "No matches"
+                  : ""}
+              </span>
+              <button
+                className="map-search-btn"
+                onClick={() => goToSearchHit(searchIndex < 0 ? -1 : searchIndex - 1)}
+                disabled={!searchHits.length}
+                aria-label="Previous match"
+              >
+                ↑
+              </button>
+              <button
+                className="map-search-btn"
+                onClick={() => goToSearchHit(searchIndex + 1)}
+                disabled={!searchHits.length}
+                aria-label="Next match"
+              >
+                ↓
+              </button>
+              <button className="map-search-btn" onClick={closeSearch} aria-label="Close search">
+                ✕
+              </button>
+            </div>
+            {searchHits.length > 0 && (
+              <ul className="map-search-results">
+                {searchHits.map((h, i) => {
+                  const t = getTask(h.id);
+                  const path = t ? parentPathTitles(tasks, t) : [];
+                  return (
+                    <li key={h.id}>
+                      <button
+                        ref={
+                          i === searchIndex
+                            ? (el) => el?.scrollIntoView({ block: "nearest" })
+                            : undefined
+                        }
+                        className={
+                          "map-search-result" +
+                          (i === searchIndex ? " map-search-result-active" : "")
+                        }
+                        onClick={() => goToSearchHit(i)}
+                      >
+                        <span className="map-search-title">
+                          {taskTitle(h.id)}
+                          {h.field !== "title" && (
+                            <span className="map-search-field">{h.field}</span>
+                          )}
+                        </span>
+                        <span className="map-search-path">
+                          {path.length ? path.join(" › ") : "Top level"}
+                        </span>
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </div>
+        )}
+
+        {/* Schedule: Critical Path, blockierte Tasks, Zyklen */}
+        {active && showCritical && totalTasks > 0 && (
+          <div
+            className="schedule-panel map-export-hide"
+            onPointerDown={(e) => e.stopPropagation()}
+          >
+            <div className="schedule-panel-head">
+              Schedule
+              {schedule.end > 0 && <span>{formatDays(schedule.end)} total</span>}
+            </div>
+            <div className="schedule-panel-section">
+              <div className="schedule-panel-label">Critical path</div>
+              {schedule.criticalPath.length ? (
+                <div className="schedule-panel-chain">
+                  {schedule.criticalPath.map((id) => taskTitle(id)).join(" → ")}
+                </div>
+              ) : (
+                <div className="schedule-empty">Set durations to find the critical path.</div>
+              )}
+            </div>
+            {schedule.blocked.length > 0 && (
+              <div className="schedule-panel-section">
+                <div className="schedule-panel-label">
+                  Blocked ({schedule.blocked.length})
+                </div>
+                <ul className="schedule-panel-list">
+                  {schedule.blocked.map((id) => (
+                    <li key={id}>{taskTitle(id)}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {schedule.cycles.length > 0 && (
+              <div className="schedule-panel-section">
+                <div className="schedule-panel-label schedule-warn">
+                  Dependency cycles
+                </div>
+                <ul className="schedule-panel-list">
+                  {schedule.cycles.map((c) => (
+                    <li key={c.join("|")} className="schedule-warn">
+                      {[...c, c[0]].map((id) => taskTitle(id)).join(" → ")}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Link-Menü: Art wählen / Link entfernen */}
+        {active && linkMenu && (
+          <div
+            className="ctxmenu link-menu"
+            style={{ left: linkMenu.x, top: linkMenu.y }}
+            onPointerDown={(e) => e.stopPropagation()}
+            onContextMenu={(e) => e.preventDefault()}
+          >
+            {(() => {
+              const existing = links.find((l: TaskLink) => l.id === linkMenu.linkId);
+              const from = existing?.from ?? linkMenu.from;
+              const to = existing?.to ?? linkMenu.to;
+              return (
+                <>
+                  <div className="ctxmenu-title link-menu-title">
+                    "{getTask(from)?.title || "Untitled"}" → "{getTask(to)?.title || "Untitled"}"
+                  </div>
+                  <div className="link-menu-kinds">
+                    {LINK_KINDS.map((k) => (
+                      <button
+                        key={k.id}
+                        className={
+                          "ctxmenu-doneBtn" +
+                          (existing?.kind === k.id ? " ctxmenu-doneBtn-active" : "")
+                        }
+                        onClick={() => applyLinkKind(k.id)}
+                      >
+                        <span className="link-swatch" style={{ background: k.color }} />
+                        {k.label}
+                      </button>
+                    ))}
+                  </div>
+                  {existing && (
+                    <button
+                      className="ctxmenu-doneBtn link-menu-remove"
+                      onClick={() => removeLink(existing.id)}
+                    >
+                      Remove link
+                    </button>
+                  )}
+                </>
+              );
+            })()}
+          </div>
+        )}
+
         {/* Kontextmenü (Color / Files) */}
         {active && ctxMenu.open && !removeMode && (
           <div
@@ -2640,11 +4884,84 @@ onPointerMove={(e) => {
                   >
                     Files
                   </button>
+                  <button
+                    className={
+                      "ctxmenu-doneBtn ctxmenu-tabBtn" +
+                      (ctxMenu.tab === "dates" ? " ctxmenu-tabBtn-active" : "")
+                    }
+                    onClick={() =>
+                      setCtxMenu((prev) => ({ ...prev, tab: "dates" }))
+                    }
+                  >
+                    Dates
+                  </button>
+                  <button
+                    className={
+                      "ctxmenu-doneBtn ctxmenu-tabBtn" +
+                      (ctxMenu.tab === "notes" ? " ctxmenu-tabBtn-active" : "")
+                    }
+                    onClick={() =>
+                      setCtxMenu((prev) => ({ ...prev, tab: "notes" }))
+                    }
+                  >
+                    Notes
+                  </button>
+                  {ctxMenu.nodeId !== CENTER_ID && (
+                    <button
+                      className={
+                        "ctxmenu-doneBtn ctxmenu-tabBtn" +
+                        (ctxMenu.tab === "tags" ? " ctxmenu-tabBtn-active" : "")
+                      }
+                      onClick={() =>
+                        setCtxMenu((prev) => ({ ...prev, tab: "tags" }))
+                      }
+                    >
+                      Tags
+                    </button>
+                  )}
+                  {ctxMenu.nodeId !== CENTER_ID && (
+                    <button
+                      className={
+                        "ctxmenu-doneBtn ctxmenu-tabBtn" +
+                        (ctxMenu.tab === "schedule" ? " ctxmenu-tabBtn-active" : "")
+                      }
+                      onClick={() =>
+                        setCtxMenu((prev) => ({ ...prev, tab: "schedule" }))
+                      }
+                    >
+                      Schedule
+                    </button>
+                  )}
+                  {ctxMenu.nodeId !== CENTER_ID && members.length > 0 && (
+                    <button
+                      className={
+                        "ctxmenu-doneBtn ctxmenu-tabBtn" +
+                        (ctxMenu.tab === "owner" ? " ctxmenu-tabBtn-active" : "")
+                      }
+                      onClick={() =>
+                        setCtxMenu((prev) => ({ ...prev, tab: "owner" }))
+                      }
+                    >
+                      Owner
+                    </button>
+                  )}
                 </div>
               ) : (
                 <div className="ctxmenu-title">Color</div>
               )}
 
+              {ctxMenu.kind === "node" && ctxMenu.nodeId && (
+                <button
+                  className="ctxmenu-doneBtn"
+                  title="Zoom to this subtree (Shift+3)"
+                  onClick={() => {
+                    fitSubtree(ctxMenu.nodeId!);
+                    closeColorMenu();
+                  }}
+                >
+                  Fit
+                </button>
+              )}
               {ctxMenu.kind === "node" && ctxMenu.nodeId && (
                 <button
                   className={
@@ -2664,6 +4981,187 @@ onPointerMove={(e) => {
 
             <div className="ctxmenu-body">
               {ctxMenu.kind === "node" &&
+              ctxMenu.tab === "schedule" &&
+              ctxMenu.nodeId &&
+              ctxMenu.nodeId !== CENTER_ID ? (
+                (() => {
+                  const id = ctxMenu.nodeId;
+                  const t: Task | undefined = getTask(id);
+                  if (!t) return null;
+                  const own: string[] = t.predecessors ?? [];
+                  const viaLinks = predecessorsOf(t, links).filter((p) => !own.includes(p));
+                  const entry = schedule.entries.get(id);
+                  const waiting = predecessorsOf(t, links).filter(
+                    (p) => !computeEffectiveDoneForTaskId(p)
+                  );
+                  return (
+                    <div className="ctxmenu-scheduleView">
+                      <label className="ctxmenu-dateField">
+                        <span>Duration (days)</span>
+                        <input
+                          type="number"
+                          min={0}
+                          step="any"
+                          value={t.duration ?? ""}
+                          placeholder="0"
+                          onChange={(e) => setTaskDuration(id, e.target.value)}
+                        />
+                      </label>
+
+                      <div className="ctxmenu-scheduleLabel">Predecessors</div>
+                      <div className="schedule-preds">
+                        {own.map((p) => (
+                          <span key={p} className="schedule-pred">
+                            {taskTitle(p)}
+                            <button
+                              onClick={() =>
+                                setTaskPredecessors(
+                                  id,
+                                  own.filter((x) => x !== p)
+                                )
+                              }
+                              aria-label={`Remove predecessor ${taskTitle(p)}`}
+                            >
+                              ×
+                            </button>
+                          </span>
+                        ))}
+                        {viaLinks.map((p) => (
+                          <span
+                            key={p}
+                            className="schedule-pred schedule-pred-link"
+                            title="From a blocks/depends-on link"
+                          >
+                            {taskTitle(p)}
+                          </span>
+                        ))}
+                        {!own.length && !viaLinks.length && (
+                          <span className="schedule-empty">None</span>
+                        )}
+                      </div>
+                      <select
+                        className="schedule-addPred"
+                        value=""
+                        onChange={(e) => addPredecessor(id, e.target.value)}
+                      >
+                        <option value="">Add predecessor…</option>
+                        {tasks
+                          .filter((x: Task) => x.id !== id && !own.includes(x.id))
+                          .map((x: Task) => (
+                            <option key={x.id} value={x.id}>
+                              {[...parentPathTitles(tasks, x), x.title || "Untitled"].join(" › ")}
+                            </option>
+                          ))}
+                      </select>
+
+                      <div className="schedule-readout">
+                        {entry ? (
+                          <>
+                            <div>
+                              Start day {formatDays(entry.es)} · finish day {formatDays(entry.ef)}
+                            </div>
+                            <div>
+                              Latest start {formatDays(entry.ls)} · slack {formatDays(entry.slack)}
+                            </div>
+                            {entry.critical && (
+                              <div className="schedule-critical">On the critical path</div>
+                            )}
+                          </>
+                        ) : (
+                          <div className="schedule-warn">
+                            Part of a dependency cycle, not scheduled.
+                          </div>
+                        )}
+                        {waiting.length > 0 && !computeEffectiveDoneForTaskId(id) && (
+                          <div className="schedule-warn">
+                            Blocked by {waiting.map((p) => `"${taskTitle(p)}"`).join(", ")}
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })()
+              ) : ctxMenu.kind === "node" &&
+              ctxMenu.tab === "owner" &&
+              ctxMenu.nodeId &&
+              ctxMenu.nodeId !== CENTER_ID ? (
+                <div className="ctxmenu-ownerView">
+                  {[null, ...members].map((m: Member | null) => {
+                    const current = getTask(ctxMenu.nodeId!)?.assigneeId;
+                    const on = m ? current === m.id : !assigneeOf(ctxMenu.nodeId!);
+                    return (
+                      <button
+                        key={m?.id ?? "none"}
+                        className={"ctxmenu-ownerBtn" + (on ? " ctxmenu-ownerBtn-active" : "")}
+                        onClick={() => setTaskAssignee(ctxMenu.nodeId!, m?.id)}
+                      >
+                        {m ? (
+                          <span className="member-avatar" style={{ background: m.color }}>
+                            {m.initials}
+                          </span>
+                        ) : (
+                          <span className="member-avatar member-avatar-none">–</span>
+                        )}
+                        {m ? m.name || m.initials : "Unassigned"}
+                      </button>
+                    );
+                  })}
+                </div>
+              ) : ctxMenu.kind === "node" &&
+              ctxMenu.tab === "tags" &&
+              ctxMenu.nodeId &&
+              ctxMenu.nodeId !== CENTER_ID ? (
+                <div className="ctxmenu-tagsView">
+                  <TagEditor
+                    tags={getTask(ctxMenu.nodeId)?.tags ?? []}
+                    onChange={(tags) => setTaskTags(ctxMenu.nodeId!, tags)}
+                    suggestions={allTags}
+                    tagColors={tagColors}
+                  />
+                </div>
+              ) : ctxMenu.kind === "node" &&
+              ctxMenu.tab === "notes" &&
+              ctxMenu.nodeId ? (
+                <div className="ctxmenu-notesView">
+                  <textarea
+                    className="ctxmenu-notesInput"
+                    rows={6}
+                    placeholder="Notes (Markdown: **bold**, *italic*, - lists, [links](https://…))"
+                    value={getNodeNotes(ctxMenu.nodeId)}
+                    onChange={(e) => setNodeNotes(ctxMenu.nodeId!, e.target.value)}
+                  />
+                  {getNodeNotes(ctxMenu.nodeId).trim() && (
+                    <div className="ctxmenu-notesPreview">
+                      <NotesMarkdown source={getNodeNotes(ctxMenu.nodeId)} />
+                    </div>
+                  )}
+                </div>
+              ) : ctxMenu.kind === "node" &&
+              ctxMenu.tab === "dates" &&
+              ctxMenu.nodeId ? (
+                <div className="ctxmenu-datesView">
+                  <label className="ctxmenu-dateField">
+                    <span>Start</span>
+                    <input
+                      type="date"
+                      value={getNodeDates(ctxMenu.nodeId).startDate ?? ""}
+                      onChange={(e) =>
+                        setTaskDate(ctxMenu.nodeId!, "startDate", e.target.value)
+                      }
+                    />
+                  </label>
+                  <label className="ctxmenu-dateField">
+                    <span>Due</span>
+                    <input
+                      type="date"
+                      value={getNodeDates(ctxMenu.nodeId).dueDate ?? ""}
+                      onChange={(e) =>
+                        setTaskDate(ctxMenu.nodeId!, "dueDate", e.target.value)
+                      }
+                    />
+                  </label>
+                </div>
+              ) : ctxMenu.kind === "node" &&
               ctxMenu.tab === "files" &&
               ctxMenu.nodeId ? (
                 <div className="ctxmenu-filesView">
@@ -2746,6 +5244,57 @@ onPointerMove={(e) => {
                 </div>
               )}
             </div>
+
+            {/* Position: Lock + Offsets zurücksetzen */}
+            {ctxMenu.kind === "node" &&
+              ctxMenu.nodeId &&
+              (() => {
+                const id = ctxMenu.nodeId;
+                const subtree = id === CENTER_ID ? null : collectSubtreeIds(tasks, id);
+                const canResetSubtree =
+                  !!subtree && [...subtree].some((d) => nodeOffset[d] && !isLocked(d));
+                return (
+                  <div className="ctxmenu-layoutRow">
+                    {id !== CENTER_ID && (
+                      <>
+                        <button
+                          className={
+                            "ctxmenu-doneBtn" + (isLocked(id) ? " ctxmenu-doneBtn-active" : "")
+                          }
+                          title="Locked nodes can't be dragged and stay put on Tidy up and Reset"
+                          onClick={() => toggleLocked(id)}
+                        >
+                          📌 Lock
+                        </button>
+                        <button
+                          className="ctxmenu-doneBtn"
+                          disabled={!nodeOffset[id] || isLocked(id)}
+                          onClick={() => resetOffsets(new Set([id]))}
+                        >
+                          Reset position
+                        </button>
+                        <button
+                          className="ctxmenu-doneBtn"
+                          disabled={!canResetSubtree}
+                          onClick={() => resetOffsets(subtree)}
+                        >
+                          Reset subtree
+                        </button>
+                      </>
+                    )}
+                    <button
+                      className="ctxmenu-doneBtn"
+                      title="Move every unlocked node back to the computed layout"
+                      onClick={() => {
+                        closeColorMenu();
+                        resetMapOffsets();
+                      }}
+                    >
+                      Reset map
+                    </button>
+                  </div>
+                );
+              })()}
           </div>
         )}
 
@@ -2861,8 +5410,19 @@ onPointerMove={(e) => {
                 stroke={e.color}
                 strokeWidth={3}
                 strokeLinecap="round"
+                opacity={e.dimmed ? FILTER_DIM_OPACITY : undefined}
               />
             ))}
+            {exportLayout.links.map((l) =>
+              renderLinkShape(
+                `link-${l.id}`,
+                l.kind,
+                l.geo,
+                exportLayout.originX,
+                exportLayout.originY,
+                l.dimmed
+              )
+            )}
           </svg>
 
           {/* Nodes */}
@@ -2891,8 +5451,10 @@ onPointerMove={(e) => {
                     transform: "translate(-50%, -50%)",
                     background: n.bubbleColor,
                     position: "absolute",
+                    opacity: n.dimmed ? FILTER_DIM_OPACITY : undefined,
                   }}
                   data-done={n.done ? "true" : "false"}
+                  data-due={n.dueState ?? undefined}
                   data-remove-mode={removeMode ? "true" : "false"}
                   data-remove-selected={n.removeSelected ? "true" : "false"}
                 >
@@ -2908,6 +5470,21 @@ onPointerMove={(e) => {
                       <span className="done-badge-check">✓</span>
                     </div>
                   )}
+                  {renderStatusBadge(n.status)}
+                  {renderDueBadge(n.dueState, n.dueDate)}
+                  {renderNotesBadge(n.hasNotes)}
+                  {n.assignee && (
+                    <div
+                      className="member-avatar node-avatar"
+                      style={{ background: n.assignee.color }}
+                      aria-hidden="true"
+                    >
+                      {n.assignee.initials}
+                    </div>
+                  )}
+                  {renderBranchProgress(n.branchPercent)}
+                  {renderProgressRing(n.ringPercent, n.r)}
+                  {renderCollapsedCount(n.collapsedCount)}
                   {renderTitleAsSpans(
                     n.title,
                     isCenter ? MAXLEN_CENTER : MAXLEN_ROOT_AND_CHILD
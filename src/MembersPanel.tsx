@@ -0,0 +1,121 @@
+import { useState, type CSSProperties, type Dispatch, type SetStateAction } from "react";
+import {
+  makeInitials,
+  makeMemberId,
+  MAX_INITIALS,
+  MEMBER_COLORS,
+  type Member,
+} from "./members";
+
+type Props = {
+  members: Member[];
+  setMembers: Dispatch<SetStateAction<Member[]>>;
+  onRemoveMember: (id: string) => void;
+  assignedCount: (id: string) => number;
+  style?: CSSProperties;
+  onClose: () => void;
+};
+
+// Team-Dropdown in der Topbar: Mitglieder anlegen/umbenennen/färben/entfernen
+export default function MembersPanel({
+  members,
+  setMembers,
+  onRemoveMember,
+  assignedCount,
+  style,
+  onClose,
+}: Props) {
+  const [draft, setDraft] = useState("");
+
+  const addMember = () => {
+    const name = draft.trim();
+    if (!name) return;
+    setMembers((prev) => [
+      ...prev,
+      {
+        id: makeMemberId(),
+        name,
+        initials: makeInitials(name),
+        color: MEMBER_COLORS[prev.length % MEMBER_COLORS.length],
+      },
+    ]);
+    setDraft("");
+  };
+
+  const patch = (id: string, p: Partial<Member>) =>
+    setMembers((prev) => prev.map((m) => (m.id === id ? { ...m, ...p } : m)));
+
+  return (
+    <div className="save-menu members-menu" role="dialog" style={style}>
+      <div className="members-head">
+        <span>Team</span>
+        <button className="members-close" onClick={onClose} aria-label="Close">
+          ✕
+        </button>
+      </div>
+
+      {members.length === 0 && (
+        <div className="members-empty">No members yet. Add people to assign tasks.</div>
+      )}
+
+      {members.map((m) => {
+        const count = assignedCount(m.id);
+        return (
+          <div key={m.id} className="members-row">
+            <label className="member-avatar members-avatarPick" style={{ background: m.color }}>
+              {m.initials}
+              <input
+                type="color"
+                value={m.color}
+                onChange={(e) => patch(m.id, { color: e.target.value })}
+                title="Avatar color"
+              />
+            </label>
+            <input
+              className="members-name"
+              value={m.name}
+              onChange={(e) => patch(m.id, { name: e.target.value })}
+              placeholder="Name"
+            />
+            <input
+              className="members-initials"
+              value={m.initials}
+              maxLength={MAX_INITIALS}
+              onChange={(e) => patch(m.id, { initials: e.target.value.toUpperCase() })}
+              title="Initials"
+            />
+            <span className="members-count" title="Assigned tasks">
+              {count}
+            </span>
+            <button
+              className="members-remove"
+              onClick={() => {
+                if (count > 0 && !confirm(`Remove ${m.name}? ${count} task(s) will be unassigned.`))
+                  return;
+                onRemoveMember(m.id);
+              }}
+              aria-label={`Remove ${m.name}`}
+            >
+              ✕
+            </button>
+          </div>
+        );
+      })}
+
+      <div className="members-add">
+        <input
+          className="members-name"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") addMember();
+          }}
+          placeholder="Add member…"
+        />
+        <button className="save-item members-addBtn" onClick={addMember} disabled={!draft.trim()}>
+          Add
+        </button>
+      </div>
+    </div>
+  );
+}
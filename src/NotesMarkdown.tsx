@@ -0,0 +1,131 @@
+import React from "react";
+
+// Mini-Markdown für Node-Notes.
+// Baut direkt React-Elemente (kein innerHTML) -> HTML im Text bleibt Text,
+// Links nur mit http(s)/mailto.
+
+const SAFE_URL_RE = /^(https?:\/\/|mailto:)/i;
+
+const INLINE_RE =
+  /(`[^`\n]+`)|\*\*([^*\n]+)\*\*|\*([^*\n]+)\*|_([^_\n]+)_|\[([^\]\n]+)\]\(([^)\s]+)\)/g;
+
+function renderInline(text: string, keyBase: string): React.ReactNode[] {
+  const out: React.ReactNode[] = [];
+  const re = new RegExp(INLINE_RE.source, "g");
+  let last = 0;
+  let i = 0;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(text))) {
+    if (m.index > last) out.push(text.slice(last, m.index));
+    const key = `${keyBase}-${i++}`;
+    if (m[1]) out.push(<code key={key}>{m[1].slice(1, -1)}</code>);
+    else if (m[2]) out.push(<strong key={key}>{renderInline(m[2], key)}</strong>);
+    else if (m[3] || m[4])
+      out.push(<em key={key}>{renderInline(m[3] || m[4], key)}</em>);
+    else if (SAFE_URL_RE.test(m[6]))
+      out.push(
+        <a key={key} href={m[6]} target="_blank" rel="noopener noreferrer">
+          {m[5]}
+        </a>
+      );
+    else out.push(m[5]);
+    last = re.lastIndex;
+  }
+  if (last < text.length) out.push(text.slice(last));
+  return out;
+}
+
+const HEADING_RE = /^(#{1,3})\s+(.*)$/;
+const BULLET_RE = /^\s*[-*+]\s+(.*)$/;
+const ORDERED_RE = /^\s*\d+[.)]\s+(.*)$/;
+const QUOTE_RE = /^>\s?(.*)$/;
+const FENCE_RE = /^```/;
+
+function renderBlocks(source: string): React.ReactNode[] {
+  const lines = source.replace(/\r\n?/g, "\n").split("\n");
+  const blocks: React.ReactNode[] = [];
+  let i = 0;
+
+  // aufeinanderfolgende Zeilen mit gleichem Muster einsammeln
+  const collect = (re: RegExp) => {
+    const items: string[] = [];
+    while (i < lines.length) {
+      const m = lines[i].match(re);
+      if (!m) break;
+      items.push(m[1]);
+      i++;
+    }
+    return items;
+  };
+
+  while (i < lines.length) {
+    const line = lines[i];
+    const key = `b${blocks.length}`;
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    if (FENCE_RE.test(line)) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !FENCE_RE.test(lines[i])) code.push(lines[i++]);
+      i++; // schließender Fence
+      blocks.push(
+        <pre key={key}>
+          <code>{code.join("\n")}</code>
+        </pre>
+      );
+      continue;
+    }
+
+    const h = line.match(HEADING_RE);
+    if (h) {
+      const Tag = (["h4", "h5", "h6"] as const)[h[1].length - 1];
+      blocks.push(<Tag key={key}>{renderInline(h[2], key)}</Tag>);
+      i++;
+      continue;
+    }
+
+    if (BULLET_RE.test(line) || ORDERED_RE.test(line)) {
+      const ordered = !BULLET_RE.test(line);
+      const items = collect(ordered ? ORDERED_RE : BULLET_RE);
+      const List = ordered ? "ol" : "ul";
+      blocks.push(
+        <List key={key}>
+          {items.map((it, j) => (
+            <li key={j}>{renderInline(it, `${key}-${j}`)}</li>
+          ))}
+        </List>
+      );
+      continue;
+    }
+
+    if (QUOTE_RE.test(line)) {
+      const quoted = collect(QUOTE_RE);
+      blocks.push(<blockquote key={key}>{renderInline(quoted.join(" "), key)}</blockquote>);
+      continue;
+    }
+
+    // Absatz bis zur nächsten Leerzeile / Block-Zeile
+    const para: string[] = [];
+    while (
+      i < lines.length &&
+      lines[i].trim() &&
+      !FENCE_RE.test(lines[i]) &&
+      !HEADING_RE.test(lines[i]) &&
+      !BULLET_RE.test(lines[i]) &&
+      !ORDERED_RE.test(lines[i]) &&
+      !QUOTE_RE.test(lines[i])
+    )
+      para.push(lines[i++]);
+    blocks.push(<p key={key}>{renderInline(para.join(" "), key)}</p>);
+  }
+
+  return blocks;
+}
+
+export default function NotesMarkdown({ source }: { source: string }) {
+  return <div className="notes-md">{renderBlocks(source)}</div>;
+}
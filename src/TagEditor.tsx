@@ -0,0 +1,93 @@
+import { useId, useState } from "react";
+import { addTag, tagColor, tagKey } from "./taskTags";
+
+type Props = {
+  tags: string[];
+  onChange: (tags: string[]) => void;
+  suggestions: string[]; // alle Tags der Map (Autocomplete)
+  tagColors: Record<string, string>;
+  disabled?: boolean;
+  placeholder?: string;
+};
+
+// Chips + Eingabe: Enter/Komma fügt hinzu, Backspace im leeren Feld entfernt den letzten
+export default function TagEditor({
+  tags,
+  onChange,
+  suggestions,
+  tagColors,
+  disabled,
+  placeholder = "Add tag…",
+}: Props) {
+  const [draft, setDraft] = useState("");
+  const listId = useId();
+
+  const commit = () => {
+    const next = addTag(tags, draft);
+    if (next !== tags) onChange(next);
+    setDraft("");
+  };
+
+  const remove = (tag: string) => onChange(tags.filter((t) => t !== tag));
+
+  const open = suggestions.filter(
+    (s) => !tags.some((t) => tagKey(t) === tagKey(s))
+  );
+
+  return (
+    <div className={"tag-editor" + (disabled ? " tag-editor-disabled" : "")}>
+      {tags.map((tag) => (
+        <span
+          key={tag}
+          className="tag-chip"
+          style={{ background: tagColor(tag, tagColors) }}
+        >
+          {tag}
+          {!disabled && (
+            <button
+              className="tag-chip-remove"
+              onClick={() => remove(tag)}
+              aria-label={`Remove tag ${tag}`}
+            >
+              ×
+            </button>
+          )}
+        </span>
+      ))}
+      {!disabled && (
+        <>
+          <input
+            className="tag-editor-input"
+            value={draft}
+            list={listId}
+            placeholder={tags.length ? "" : placeholder}
+            onChange={(e) => {
+              // Komma (auch per Paste) schließt den Tag ab
+              const v = e.target.value;
+              if (v.includes(",")) {
+                let next = tags;
+                for (const part of v.split(",")) next = addTag(next, part);
+                if (next !== tags) onChange(next);
+                setDraft("");
+              } else setDraft(v);
+            }}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                e.preventDefault();
+                commit();
+              } else if (e.key === "Backspace" && !draft && tags.length) {
+                remove(tags[tags.length - 1]);
+              }
+            }}
+            onBlur={commit}
+          />
+          <datalist id={listId}>
+            {open.map((s) => (
+              <option key={s} value={s} />
+            ))}
+          </datalist>
+        </>
+      )}
+    </div>
+  );
+}
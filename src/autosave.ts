@@ -0,0 +1,154 @@
+// Lokales Autosave in IndexedDB (Crash-/Reload-Schutz, unabhängig von Save/Open)
+//
+// Der Session-State wird ohne Attachment-Daten gespeichert; die (großen, unveränderlichen)
+// dataUrls liegen in einem eigenen Store und werden nur einmal pro Attachment-ID geschrieben.
+
+const DB_NAME = "opentaskmap-autosave";
+const DB_VERSION = 1;
+const STORE_SESSION = "session";
+const STORE_ATTACHMENTS = "attachments";
+const SESSION_KEY = "last";
+
+type AttachmentLike = { id: string; name: string; mime: string; dataUrl: string };
+
+export type SessionLike = {
+  projectTitle: string;
+  ts: number;
+  tasks: { attachments?: AttachmentLike[] }[];
+  centerAttachments?: AttachmentLike[];
+};
+
+export type SessionRecord<T extends SessionLike> = {
+  state: T; // Attachments ohne dataUrl
+  dirty: boolean; // true = seit letztem Save/Open verändert
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("IndexedDB not available"));
+      return;
+    }
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(STORE_SESSION))
+        db.createObjectStore(STORE_SESSION);
+      if (!db.objectStoreNames.contains(STORE_ATTACHMENTS))
+        db.createObjectStore(STORE_ATTACHMENTS);
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+  return dbPromise;
+}
+
+function reqToPromise<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function txDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+const allAttachments = (state: SessionLike) => [
+  ...(state.centerAttachments ?? []),
+  ...state.tasks.flatMap((t) => t.attachments ?? []),
+];
+
+const stripAttachment = (a: AttachmentLike): AttachmentLike => ({ ...a, dataUrl: "" });
+
+function stripState<T extends SessionLike>(state: T): T {
+  return {
+    ...state,
+    tasks: state.tasks.map((t) =>
+      t.attachments ? { ...t, attachments: t.attachments.map(stripAttachment) } : t
+    ),
+    centerAttachments: state.centerAttachments?.map(stripAttachment),
+  };
+}
+
+export async function writeSession<T extends SessionLike>(state: T, dirty: boolean) {
+  const db = await openDb();
+  const atts = allAttachments(state);
+  const live = new Set(atts.map((a) => a.id));
+
+  // vorhandene Attachment-Keys lesen, nur neue schreiben, verwaiste löschen
+  const existing = (await reqToPromise(
+    db.transaction(STORE_ATTACHMENTS).objectStore(STORE_ATTACHMENTS).getAllKeys()
+  )) as string[];
+  const have = new Set(existing);
+
+  const tx = db.transaction([STORE_SESSION, STORE_ATTACHMENTS], "readwrite");
+  const attStore = tx.objectStore(STORE_ATTACHMENTS);
+  for (const a of atts) if (!have.has(a.id) && a.dataUrl) attStore.put(a.dataUrl, a.id);
+  for (const key of existing) if (!live.has(key)) attStore.delete(key);
+
+  const record: SessionRecord<T> = { state: stripState(state), dirty };
+  tx.objectStore(STORE_SESSION).put(record, SESSION_KEY);
+  await txDone(tx);
+}
+
+export async function readSession<T extends SessionLike>(): Promise<SessionRecord<T> | null> {
+  const db = await openDb();
+  const rec = await reqToPromise(
+    db.transaction(STORE_SESSION).objectStore(STORE_SESSION).get(SESSION_KEY)
+  );
+  if (!rec || typeof rec !== "object" || !Array.isArray(rec.state?.tasks)) return null;
+  return rec as SessionRecord<T>;
+}
+
+// dataUrls aus dem Attachment-Store wieder einsetzen
+export async function hydrateSession<T extends SessionLike>(state: T): Promise<T> {
+  const db = await openDb();
+  const store = db.transaction(STORE_ATTACHMENTS).objectStore(STORE_ATTACHMENTS);
+  const urls = new Map<string, string>();
+  await Promise.all(
+    allAttachments(state).map(async (a) => {
+      const url = await reqToPromise(store.get(a.id));
+      if (typeof url === "string") urls.set(a.id, url);
+    })
+  );
+  const fill = (list?: AttachmentLike[]) =>
+    list
+      ?.map((a) => ({ ...a, dataUrl: urls.get(a.id) ?? "" }))
+      .filter((a) => a.dataUrl);
+  return {
+    ...state,
+    tasks: state.tasks.map((t) =>
+      t.attachments ? { ...t, attachments: fill(t.attachments) } : t
+    ),
+    centerAttachments: fill(state.centerAttachments),
+  };
+}
+
+// nach Save/Save As: Session bleibt liegen, wird aber nicht mehr zum Restore angeboten
+export async function markSessionSaved() {
+  const db = await openDb();
+  const tx = db.transaction(STORE_SESSION, "readwrite");
+  const store = tx.objectStore(STORE_SESSION);
+  const rec = await reqToPromise(store.get(SESSION_KEY));
+  if (rec) store.put({ ...rec, dirty: false }, SESSION_KEY);
+  await txDone(tx);
+}
+
+export async function clearSession() {
+  const db = await openDb();
+  const tx = db.transaction([STORE_SESSION, STORE_ATTACHMENTS], "readwrite");
+  tx.objectStore(STORE_SESSION).clear();
+  tx.objectStore(STORE_ATTACHMENTS).clear();
+  await txDone(tx);
+}
@@ -0,0 +1,430 @@
+// Layout-Engine: Positionen für Center, Roots und Kinder (Render, Export, Winkel-HUD)
+import type { Task } from "./MapView";
+
+export const CENTER_ID = "__CENTER__";
+
+export const R_CENTER = 75;
+export const R_ROOT = 60;
+export const R_CHILD = 50;
+
+// Radial: Roots im Kreis um den Center, Kinder gefächert um ihren Parent
+export const ROOT_RADIUS = 280;
+export const RING = 130;
+
+// Baum-Layouts: Abstand zwischen Geschwistern + Ebenen
+const SIBLING_GAP = 30;
+const SLOT = 2 * R_ROOT + SIBLING_GAP;
+
+export type LayoutMode = "radial" | "tree" | "org" | "tidy" | "force";
+
+export const LAYOUT_MODES: { id: LayoutMode; label: string }[] = [
+  { id: "radial", label: "Radial" },
+  { id: "tree", label: "Tree (left → right)" },
+  { id: "org", label: "Org chart" },
+  { id: "tidy", label: "Tidy tree" },
+  { id: "force", label: "Force-directed" },
+];
+
+export const DEFAULT_LAYOUT_MODE: LayoutMode = "radial";
+
+export const isLayoutMode = (v: unknown): v is LayoutMode =>
+  LAYOUT_MODES.some((m) => m.id === v);
+
+type Vec = { x: number; y: number };
+
+// Struktur-Teil ohne Offsets (bei "force" teuer, daher getrennt memoisierbar)
+export type LayoutBase = {
+  mode: LayoutMode;
+  kids: Map<string, string[]>; // CENTER_ID -> Roots; eingeklappte Nodes ohne Kinder
+  rel: Map<string, Vec>; // nicht radial: Position relativ zum Parent
+};
+
+export const radiusAtDepth = (depth: number) =>
+  depth === 0 ? R_CENTER : depth === 1 ? R_ROOT : R_CHILD;
+
+export function computeLayoutBase(mode: LayoutMode, tasks: Task[]): LayoutBase {
+  const kids = new Map<string, string[]>([[CENTER_ID, []]]);
+  const collapsed = new Set(tasks.filter((t) => t.collapsed).map((t) => t.id));
+  for (const t of tasks) {
+    if (!kids.has(t.id)) kids.set(t.id, []);
+    const p = t.parentId ?? CENTER_ID;
+    if (collapsed.has(p)) continue;
+    if (!kids.has(p)) kids.set(p, []);
+    kids.get(p)!.push(t.id);
+  }
+
+  const rel = new Map<string, Vec>();
+  if (mode === "radial") return { mode, kids, rel };
+
+  const abs =
+    mode === "force"
+      ? forceLayout(kids)
+      : layeredLayout(kids, mode === "tidy", mode === "tree" ? "x" : "y");
+
+  const walk = (id: string) => {
+    const p = abs.get(id)!;
+    for (const k of kids.get(id) ?? []) {
+      const c = abs.get(k)!;
+      rel.set(k, { x: c.x - p.x, y: c.y - p.y });
+      walk(k);
+    }
+  };
+  walk(CENTER_ID);
+  return { mode, kids, rel };
+}
+
+// Endpositionen: Offsets verschieben einen Node samt Subtree
+export function resolveLayout(
+  base: LayoutBase,
+  offsets: Record<string, Vec>
+): Record<string, Vec> {
+  return placeAll(base, (id, n) => {
+    const o = offsets[id];
+    return o ? { x: n.x + o.x, y: n.y + o.y } : n;
+  });
+}
+
+// Umkehrung: Offsets, mit denen die Nodes aus targets genau dort landen (Rest bleibt)
+export function offsetsForPositions(
+  base: LayoutBase,
+  targets: Record<string, Vec>,
+  offsets: Record<string, Vec>
+): Record<string, Vec> {
+  const next = { ...offsets };
+  placeAll(base, (id, n) => {
+    const t = targets[id];
+    if (!t) {
+      const o = offsets[id];
+      return o ? { x: n.x + o.x, y: n.y + o.y } : n;
+    }
+    const o = { x: t.x - n.x, y: t.y - n.y };
+    if (Math.abs(o.x) < 0.5 && Math.abs(o.y) < 0.5) delete next[id];
+    else next[id] = o;
+    return t;
+  });
+  return next;
+}
+
+// place(id, natürliche Position ohne eigenen Offset) -> Endposition; top-down
+function placeAll(
+  base: LayoutBase,
+  place: (id: string, natural: Vec) => Vec
+): Record<string, Vec> {
+  const pos: Record<string, Vec> = { [CENTER_ID]: { x: 0, y: 0 } };
+
+  if (base.mode !== "radial") {
+    const walk = (id: string) => {
+      const p = pos[id];
+      for (const k of base.kids.get(id) ?? []) {
+        const r = base.rel.get(k)!;
+        pos[k] = place(k, { x: p.x + r.x, y: p.y + r.y });
+        walk(k);
+      }
+    };
+    walk(CENTER_ID);
+    return pos;
+  }
+
+  // Radial: Fächer richtet sich nach der (verschobenen) Lage von Parent + Großparent
+  const rec = (parentId: string, px: number, py: number, gpx: number, gpy: number) => {
+    const ks = base.kids.get(parentId) ?? [];
+    if (ks.length === 0) return;
+    const angBase = Math.atan2(py - gpy, px - gpx);
+    const SPREAD = Math.min(
+      Math.PI,
+      Math.max(Math.PI * 0.6, (ks.length - 1) * (Math.PI / 6))
+    );
+    const step = ks.length === 1 ? 0 : SPREAD / (ks.length - 1);
+    const start = angBase - SPREAD / 2;
+    ks.forEach((k, idx) => {
+      const ang = start + idx * step;
+      const c = place(k, { x: px + Math.cos(ang) * RING, y: py + Math.sin(ang) * RING });
+      pos[k] = c;
+      rec(k, c.x, c.y, px, py);
+    });
+  };
+
+  const roots = base.kids.get(CENTER_ID) ?? [];
+  const total = Math.max(roots.length, 1);
+  roots.forEach((id, i) => {
+    const ang = (i / total) * Math.PI * 2;
+    const r = place(id, { x: Math.cos(ang) * ROOT_RADIUS, y: Math.sin(ang) * ROOT_RADIUS });
+    pos[id] = r;
+    rec(id, r.x, r.y, 0, 0);
+  });
+  return pos;
+}
+
+/* ---------- Aufräumen: Überlappungen auflösen ---------- */
+
+const TIDY_GAP = 16; // Mindestabstand zwischen zwei Kreisen (Progress-Ring bleibt frei)
+const TIDY_MAX_ITERATIONS = 200;
+const TIDY_CELL = 2 * R_CENTER + TIDY_GAP;
+
+// Überlappende Bubbles auseinanderschieben; ein Node nimmt seinen Subtree mit,
+// große Subtrees weichen weniger aus. fixed (+ Center) bleiben exakt stehen.
+export function tidyPositions(
+  base: LayoutBase,
+  pos: Record<string, Vec>,
+  fixed: Set<string>
+): Record<string, Vec> {
+  // top-down Reihenfolge, Parent, Tiefe, Euler-Intervalle (Vorfahren-Test in O(1))
+  const ids: string[] = [];
+  const par: number[] = [];
+  const r: number[] = [];
+  const tin: number[] = [];
+  const tout: number[] = [];
+  let clock = 0;
+  const walk = (id: string, parent: number, depth: number) => {
+    if (!pos[id]) return;
+    const i = ids.length;
+    ids.push(id);
+    par.push(parent);
+    r.push(radiusAtDepth(depth));
+    tin[i] = clock++;
+    for (const k of base.kids.get(id) ?? []) walk(k, i, depth + 1);
+    tout[i] = clock++;
+  };
+  walk(CENTER_ID, -1, 0);
+
+  const n = ids.length;
+  const size = new Float64Array(n).fill(1);
+  for (let i = n - 1; i > 0; i--) size[par[i]] += size[i];
+  const pinned = ids.map((id) => id === CENTER_ID || fixed.has(id));
+  const isAncestor = (a: number, b: number) => tin[a] < tin[b] && tout[b] < tout[a];
+
+  const xs = Float64Array.from(ids, (id) => pos[id].x);
+  const ys = Float64Array.from(ids, (id) => pos[id].y);
+
+  for (let it = 0; it < TIDY_MAX_ITERATIONS; it++) {
+    const dx = new Float64Array(n);
+    const dy = new Float64Array(n);
+    let overlaps = 0;
+
+    // Raster mit Zellgröße >= größter Mindestabstand: nur Nachbarzellen prüfen
+    const cells = new Map<number, number[]>();
+    const cellOf = (v: number) => Math.floor(v / TIDY_CELL) + 32768;
+    for (let i = 0; i < n; i++) {
+      const key = cellOf(xs[i]) * 65536 + cellOf(ys[i]);
+      const c = cells.get(key);
+      if (c) c.push(i);
+      else cells.set(key, [i]);
+    }
+
+    for (let i = 0; i < n; i++) {
+      const cx = cellOf(xs[i]);
+      const cy = cellOf(ys[i]);
+      for (let ox = -1; ox <= 1; ox++)
+        for (let oy = -1; oy <= 1; oy++)
+          for (const j of cells.get((cx + ox) * 65536 + cy + oy) ?? []) {
+            if (j <= i) continue;
+            const min = r[i] + r[j] + TIDY_GAP;
+            let vx = xs[j] - xs[i];
+            let vy = ys[j] - ys[i];
+            let d = Math.sqrt(vx * vx + vy * vy);
+            if (d >= min - 0.5 || (pinned[i] && pinned[j])) continue;
+            if (d < 0.01) {
+              // exakt übereinander: Richtung aus den Indizes (deterministisch)
+              vx = Math.cos(j * 2.39996);
+              vy = Math.sin(j * 2.39996);
+              d = 1;
+            }
+            overlaps++;
+
+            // Anteil je Seite: Gepinnte + Vorfahren bleiben, sonst nach Subtree-Größe
+            // (i < j in Preorder: j ist nie Vorfahr von i)
+            const si = pinned[i]
+              ? 0
+              : pinned[j]
+                ? 1
+                : isAncestor(i, j)
+                  ? 0
+                  : size[j] / (size[i] + size[j]);
+            const push = (min - d) / d;
+            dx[i] -= vx * push * si;
+            dy[i] -= vy * push * si;
+            dx[j] += vx * push * (1 - si);
+            dy[j] += vy * push * (1 - si);
+          }
+    }
+    if (!overlaps) break;
+
+    // Verschiebung an den Subtree weitergeben (gepinnte Nodes halten ihre Position)
+    const tx = new Float64Array(n);
+    const ty = new Float64Array(n);
+    for (let i = 1; i < n; i++) {
+      if (pinned[i]) continue;
+      tx[i] = dx[i] * 0.8 + tx[par[i]];
+      ty[i] = dy[i] * 0.8 + ty[par[i]];
+      xs[i] += tx[i];
+      ys[i] += ty[i];
+    }
+  }
+
+  const out = { ...pos };
+  ids.forEach((id, i) => (out[id] = { x: xs[i], y: ys[i] }));
+  return out;
+}
+
+/* ---------- Baum-Layouts (Ebenen entlang einer Achse) ---------- */
+
+// depthAxis "x": Ebenen links -> rechts, "y": oben -> unten.
+// compact = Tidy-Tree: Subtrees rücken so nah zusammen, wie ihre Konturen erlauben.
+function layeredLayout(
+  kids: Map<string, string[]>,
+  compact: boolean,
+  depthAxis: "x" | "y"
+): Map<string, Vec> {
+  const levelGap = depthAxis === "x" ? 260 : compact ? 170 : 200;
+  const breadth = compact ? tidyBreadth(kids) : leafBreadth(kids);
+
+  const out = new Map<string, Vec>();
+  const walk = (id: string, depth: number) => {
+    const b = breadth.get(id)!;
+    const d = depth * levelGap;
+    out.set(id, depthAxis === "x" ? { x: d, y: b } : { x: b, y: d });
+    for (const k of kids.get(id) ?? []) walk(k, depth + 1);
+  };
+  walk(CENTER_ID, 0);
+
+  // Center bleibt bei 0,0
+  const c = out.get(CENTER_ID)!;
+  for (const [id, p] of out) out.set(id, { x: p.x - c.x, y: p.y - c.y });
+  return out;
+}
+
+// Blätter der Reihe nach, Parent mittig über erstem und letztem Kind
+function leafBreadth(kids: Map<string, string[]>): Map<string, number> {
+  const out = new Map<string, number>();
+  let cursor = 0;
+  const walk = (id: string) => {
+    const ks = kids.get(id) ?? [];
+    if (!ks.length) {
+      out.set(id, cursor + SLOT / 2);
+      cursor += SLOT;
+      return;
+    }
+    ks.forEach(walk);
+    out.set(id, (out.get(ks[0])! + out.get(ks[ks.length - 1])!) / 2);
+  };
+  walk(CENTER_ID);
+  return out;
+}
+
+// Konturen je Ebene: [links, rechts] relativ zum Subtree-Node
+function tidyBreadth(kids: Map<string, string[]>): Map<string, number> {
+  const relB = new Map<string, number>();
+
+  const place = (id: string, depth: number): [number, number][] => {
+    const half = radiusAtDepth(depth) + SIBLING_GAP / 2;
+    const ks = kids.get(id) ?? [];
+    if (!ks.length) return [[-half, half]];
+
+    const merged: [number, number][] = [];
+    const offsets: number[] = [];
+    for (const k of ks) {
+      const contour = place(k, depth + 1);
+      let shift = 0;
+      if (offsets.length) {
+        shift = Number.NEGATIVE_INFINITY;
+        for (let l = 0; l < Math.min(merged.length, contour.length); l++)
+          shift = Math.max(shift, merged[l][1] - contour[l][0]);
+      }
+      offsets.push(shift);
+      contour.forEach(([lo, hi], l) => {
+        if (l < merged.length)
+          merged[l] = [Math.min(merged[l][0], lo + shift), Math.max(merged[l][1], hi + shift)];
+        else merged.push([lo + shift, hi + shift]);
+      });
+    }
+
+    const mid = (offsets[0] + offsets[offsets.length - 1]) / 2;
+    ks.forEach((k, i) => relB.set(k, offsets[i] - mid));
+    return [[-half, half], ...merged.map(([lo, hi]): [number, number] => [lo - mid, hi - mid])];
+  };
+  place(CENTER_ID, 0);
+
+  const out = new Map<string, number>([[CENTER_ID, 0]]);
+  const walk = (id: string) => {
+    for (const k of kids.get(id) ?? []) {
+      out.set(k, out.get(id)! + relB.get(k)!);
+      walk(k);
+    }
+  };
+  walk(CENTER_ID);
+  return out;
+}
+
+/* ---------- Force-directed ---------- */
+
+// deterministisch: Start = Radial-Layout, dann Abstoßung (alle Paare) + Federn (Kanten)
+function forceLayout(kids: Map<string, string[]>): Map<string, Vec> {
+  const start = resolveLayout({ mode: "radial", kids, rel: new Map() }, {});
+  const ids = Object.keys(start);
+  const idx = new Map(ids.map((id, i) => [id, i] as const));
+  const xs = ids.map((id) => start[id].x);
+  const ys = ids.map((id) => start[id].y);
+
+  const depth = new Map<string, number>([[CENTER_ID, 0]]);
+  const edges: [number, number, number][] = []; // a, b, Ruhelänge
+  const walk = (id: string) => {
+    for (const k of kids.get(id) ?? []) {
+      depth.set(k, depth.get(id)! + 1);
+      edges.push([idx.get(id)!, idx.get(k)!, id === CENTER_ID ? ROOT_RADIUS : RING + 20]);
+      walk(k);
+    }
+  };
+  walk(CENTER_ID);
+  const r = ids.map((id) => radiusAtDepth(depth.get(id) ?? 2));
+
+  const n = ids.length;
+  const iterations = n > 400 ? 40 : n > 150 ? 100 : 250;
+  const center = idx.get(CENTER_ID)!;
+
+  for (let it = 0; it < iterations; it++) {
+    const temp = 40 * (1 - it / iterations) + 1;
+    const dx = new Float64Array(n);
+    const dy = new Float64Array(n);
+
+    for (let i = 0; i < n; i++)
+      for (let j = i + 1; j < n; j++) {
+        let vx = xs[i] - xs[j];
+        let vy = ys[i] - ys[j];
+        let d = Math.sqrt(vx * vx + vy * vy);
+        if (d < 0.01) {
+          // exakt übereinander: fest zur Seite schieben (deterministisch)
+          vx = 1;
+          vy = 0;
+          d = 1;
+        }
+        const min = r[i] + r[j] + SIBLING_GAP;
+        const f = 20000 / (d * d) + (d < min ? (min - d) * 0.5 : 0);
+        dx[i] += (vx / d) * f;
+        dy[i] += (vy / d) * f;
+        dx[j] -= (vx / d) * f;
+        dy[j] -= (vy / d) * f;
+      }
+
+    for (const [a, b, rest] of edges) {
+      const vx = xs[b] - xs[a];
+      const vy = ys[b] - ys[a];
+      const d = Math.sqrt(vx * vx + vy * vy) || 1;
+      const f = (d - rest) * 0.08;
+      dx[a] += (vx / d) * f;
+      dy[a] += (vy / d) * f;
+      dx[b] -= (vx / d) * f;
+      dy[b] -= (vy / d) * f;
+    }
+
+    for (let i = 0; i < n; i++) {
+      if (i === center) continue;
+      const len = Math.hypot(dx[i], dy[i]);
+      if (!len) continue;
+      const step = Math.min(len, temp);
+      xs[i] += (dx[i] / len) * step;
+      ys[i] += (dy[i] / len) * step;
+    }
+  }
+
+  return new Map(ids.map((id, i) => [id, { x: xs[i], y: ys[i] }] as const));
+}
@@ -0,0 +1,110 @@
+// Einrasten beim Ziehen: Winkel/Abstand zum Parent, Welt-Raster, Hilfslinien an Geschwistern
+
+type Vec = { x: number; y: number };
+
+export type SnapSettings = {
+  angleStep: number; // Grad, 0 = aus
+  radialStep: number; // px-Raster für den Abstand zum Parent, 0 = aus
+  grid: boolean; // Raster anzeigen + einrasten (wenn kein Winkel/Abstand aktiv)
+  gridSize: number;
+  guides: boolean; // Hilfslinien an Geschwistern
+};
+
+export const ANGLE_STEPS = [0, 15, 30, 45];
+export const RADIAL_STEPS = [0, 20, 40, 65];
+export const GRID_SIZES = [20, 40, 80];
+
+export const DEFAULT_SNAP: SnapSettings = {
+  angleStep: 0,
+  radialStep: 0,
+  grid: false,
+  gridSize: 40,
+  guides: true,
+};
+
+export const isSnapSettings = (v: unknown): v is SnapSettings => {
+  if (!v || typeof v !== "object" || Array.isArray(v)) return false;
+  const s = v as Record<string, unknown>;
+  return (
+    ANGLE_STEPS.includes(s.angleStep as number) &&
+    RADIAL_STEPS.includes(s.radialStep as number) &&
+    GRID_SIZES.includes(s.gridSize as number) &&
+    typeof s.grid === "boolean" &&
+    typeof s.guides === "boolean"
+  );
+};
+
+// Hilfslinie in Welt-Koordinaten: axis "x" = senkrechte Linie bei x = value
+export type SnapGuide = { axis: "x" | "y"; value: number; from: number; to: number };
+
+const GUIDE_SNAP_PX = 8; // Fangbereich in Bildschirm-px
+
+export type SnapResult = {
+  pos: Vec;
+  guides: SnapGuide[];
+};
+
+// parent = null: kein Winkel/Abstand (z.B. Center)
+export function snapPosition(
+  pos: Vec,
+  parent: Vec | null,
+  siblings: Vec[],
+  s: SnapSettings,
+  scale: number
+): SnapResult {
+  let { x, y } = pos;
+
+  if (parent && (s.angleStep || s.radialStep)) {
+    const dx = x - parent.x;
+    const dy = y - parent.y;
+    let ang = Math.atan2(dy, dx);
+    let dist = Math.hypot(dx, dy);
+    if (s.angleStep) {
+      const step = (s.angleStep * Math.PI) / 180;
+      ang = Math.round(ang / step) * step;
+    }
+    if (s.radialStep) dist = Math.max(s.radialStep, Math.round(dist / s.radialStep) * s.radialStep);
+    x = parent.x + Math.cos(ang) * dist;
+    y = parent.y + Math.sin(ang) * dist;
+  } else if (s.grid) {
+    x = Math.round(x / s.gridSize) * s.gridSize;
+    y = Math.round(y / s.gridSize) * s.gridSize;
+  }
+
+  // Hilfslinien gewinnen pro Achse (nächster Geschwister-Node im Fangbereich der Zeigerposition)
+  const guides: SnapGuide[] = [];
+  if (s.guides && siblings.length) {
+    const tol = GUIDE_SNAP_PX / (scale || 1);
+    const best = (axis: "x" | "y") => {
+      const v = pos[axis];
+      let hit: number | null = null;
+      for (const sib of siblings) {
+        const d = Math.abs(sib[axis] - v);
+        if (d <= tol && (hit === null || d < Math.abs(hit - v))) hit = sib[axis];
+      }
+      return hit;
+    };
+    const gx = best("x");
+    const gy = best("y");
+    if (gx !== null) x = gx;
+    if (gy !== null) y = gy;
+
+    const line = (axis: "x" | "y", value: number): SnapGuide => {
+      const other = axis === "x" ? "y" : "x";
+      const along = siblings
+        .filter((sib) => Math.abs(sib[axis] - value) < 0.5)
+        .map((sib) => sib[other]);
+      const own = axis === "x" ? y : x;
+      return {
+        axis,
+        value,
+        from: Math.min(own, ...along),
+        to: Math.max(own, ...along),
+      };
+    };
+    if (gx !== null) guides.push(line("x", gx));
+    if (gy !== null) guides.push(line("y", gy));
+  }
+
+  return { pos: { x, y }, guides };
+}
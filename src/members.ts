@@ -0,0 +1,43 @@
+// Projekt-Mitglieder (Team) + Zuständigkeit pro Task
+import type { Task } from "./MapView";
+
+export type Member = {
+  id: string;
+  name: string;
+  initials: string; // max. 3 Zeichen, Avatar-Chip
+  color: string;
+};
+
+export const MEMBER_COLORS = [
+  "#6366f1",
+  "#0ea5e9",
+  "#f97316",
+  "#22c55e",
+  "#e11d48",
+  "#a855f7",
+  "#14b8a6",
+  "#eab308",
+];
+
+export const MAX_INITIALS = 3;
+
+export const makeMemberId = () => "m-" + Math.random().toString(36).slice(2, 9);
+
+// "Ada Lovelace" -> "AL", "ada" -> "AD"
+export function makeInitials(name: string): string {
+  const parts = name.trim().split(/\s+/).filter(Boolean);
+  if (parts.length === 0) return "?";
+  if (parts.length === 1) return parts[0].slice(0, 2).toUpperCase();
+  return (parts[0][0] + parts[parts.length - 1][0]).toUpperCase();
+}
+
+export function findMember(members: Member[], id: string | undefined) {
+  return id ? members.find((m) => m.id === id) : undefined;
+}
+
+// Mitglied entfernen -> Zuweisungen auflösen (sonst hängende assigneeIds)
+export function unassignMember(tasks: Task[], memberId: string): Task[] {
+  return tasks.map((t) =>
+    t.assigneeId === memberId ? { ...t, assigneeId: undefined } : t
+  );
+}
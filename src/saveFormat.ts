@@ -0,0 +1,468 @@
+// Save-Format (.taskmap.json): Schema, Migrationen, strikte Validierung
+import type { CenterNode, Task, TaskAttachment } from "./MapView";
+import type { Member } from "./members";
+import { isLinkKind, type TaskLink } from "./taskLinks";
+import { DEFAULT_LAYOUT_MODE, isLayoutMode, LAYOUT_MODES, type LayoutMode } from "./mapLayout";
+import { DEFAULT_SNAP, isSnapSettings, type SnapSettings } from "./mapSnap";
+import { DEFAULT_PROGRESS_MODE, isProgressMode, type ProgressMode } from "./taskProgress";
+import { parseISODate } from "./taskDates";
+import {
+  DEFAULT_STATUS_COLUMNS,
+  isValidStatusColumns,
+  type StatusColumn,
+} from "./taskStatus";
+
+export const SAVE_FORMAT_VERSION = 13;
+
+// ✅ “Innocent start” Default (clean statt schwarz)
+export const INNOCENT_CENTER_COLOR = "#ffffff";
+
+// v1-Default des Centers (dunkel) – wird beim Migrieren zum “unschuldigen” Weiß
+const OLD_DEFAULT_CENTER_COLOR = "#020617";
+
+type Vec = { x: number; y: number };
+
+export type SavedState = {
+  v: typeof SAVE_FORMAT_VERSION;
+  projectTitle: string;
+  tasks: Task[];
+  nodeOffset: Record<string, Vec>;
+  pan: Vec;
+  scale: number;
+  ts: number;
+  branchColorOverride: Record<string, string>;
+  centerColor: string;
+
+  // Edge-Farben (Linien-Overrides)
+  branchEdgeColorOverride: Record<string, string>;
+  edgeColorOverride: Record<string, string>;
+
+  centerAttachments: TaskAttachment[];
+
+  // “unschuldiger” Start-Look gilt nur, solange der Center nicht bewusst eingefärbt wurde
+  centerColorCustomized: boolean;
+
+  // Board-Spalten (user-defined Status)
+  statusColumns: StatusColumn[];
+
+  // Center-Node: Projekt-Done + Dates + Notes (v3)
+  center: CenterNode;
+
+  // Tags: Farbe pro tagKey + Bubble-Farben aus Tags statt Branch-Farben (v4)
+  tagColors: Record<string, string>;
+  colorByTags: boolean;
+
+  // Team: Mitglieder, Task.assigneeId verweist auf Member.id (v5)
+  members: Member[];
+
+  // Progress: Roll-up-Modus, Gewichte liegen als Task.estimate an den Tasks (v6)
+  progressMode: ProgressMode;
+
+  // Progress-Ringe um Nodes mit Kindern an/aus (v7)
+  showProgressRings: boolean;
+
+  // Done-Roll-up nach oben: Parent done, wenn alle Kinder done (v8)
+  doneRollup: boolean;
+
+  // Querverbindungen zwischen Tasks (v9)
+  links: TaskLink[];
+
+  // Layout-Strategie der Map, Offsets gelten relativ dazu (v10)
+  layoutMode: LayoutMode;
+
+  // Überlappungen laufend auflösen (v11)
+  autoTidy: boolean;
+
+  // Einrasten beim Ziehen: Winkel, Abstand, Raster, Hilfslinien (v12)
+  snap: SnapSettings;
+};
+
+export const serializeState = (s: Omit<SavedState, "v" | "ts">): SavedState => ({
+  v: SAVE_FORMAT_VERSION,
+  ...s,
+  ts: Date.now(),
+});
+
+export type LoadResult =
+  | { ok: true; state: SavedState; migratedFrom: number | null }
+  | { ok: false; errors: string[] };
+
+/* ---------- Migrationen ---------- */
+
+type RawState = Record<string, unknown>;
+
+const isObj = (v: unknown): v is Record<string, unknown> =>
+  !!v && typeof v === "object" && !Array.isArray(v);
+
+// MIGRATIONS[n] hebt eine Datei von Version n auf n + 1
+const MIGRATIONS: Record<number, (d: RawState) => RawState> = {
+  // v1 -> v2: optionale Felder explizit machen, alte Defaults auflösen
+  1: (d) => {
+    const rawColor = typeof d.centerColor === "string" ? d.centerColor.trim() : "";
+    const centerColor =
+      !rawColor || rawColor.toLowerCase() === OLD_DEFAULT_CENTER_COLOR
+        ? INNOCENT_CENTER_COLOR
+        : rawColor;
+    return {
+      ...d,
+      projectTitle: d.projectTitle ?? "Project",
+      tasks: Array.isArray(d.tasks)
+        ? d.tasks.map((t) =>
+            isObj(t)
+              ? {
+                  ...t,
+                  // geleerte Datumsfelder wurden in v1 teils als "" gespeichert
+                  startDate: t.startDate === "" ? undefined : t.startDate,
+                  dueDate: t.dueDate === "" ? undefined : t.dueDate,
+                }
+              : t
+          )
+        : d.tasks,
+      nodeOffset: d.nodeOffset ?? {},
+      pan: d.pan ?? { x: 0, y: 0 },
+      scale: d.scale ?? 1,
+      ts: d.ts ?? 0,
+      branchColorOverride: d.branchColorOverride ?? {},
+      centerColor,
+      branchEdgeColorOverride: d.branchEdgeColorOverride ?? {},
+      edgeColorOverride: d.edgeColorOverride ?? {},
+      centerAttachments: d.centerAttachments ?? [],
+      centerColorCustomized:
+        typeof d.centerColorCustomized === "boolean"
+          ? d.centerColorCustomized
+          : centerColor.toLowerCase() !== INNOCENT_CENTER_COLOR,
+      statusColumns: d.statusColumns ?? DEFAULT_STATUS_COLUMNS,
+      v: 2,
+    };
+  },
+
+  // v2 -> v3: Center-Done war nur lokaler MapView-State -> startet als "nicht done"
+  2: (d) => ({ ...d, center: d.center ?? {}, v: 3 }),
+
+  // v3 -> v4: Tag-Farben (Branch-Farben bleiben Standard)
+  3: (d) => ({ ...d, tagColors: d.tagColors ?? {}, colorByTags: d.colorByTags ?? false, v: 4 }),
+
+  // v4 -> v5: Team-Mitglieder (Tasks bleiben unzugewiesen)
+  4: (d) => ({ ...d, members: d.members ?? [], v: 5 }),
+
+  // v5 -> v6: Progress-Modus (bisher zählte jeder Task mit 1 = "all")
+  5: (d) => ({ ...d, progressMode: d.progressMode ?? DEFAULT_PROGRESS_MODE, v: 6 }),
+
+  // v6 -> v7: Progress-Ringe (standardmäßig an)
+  6: (d) => ({ ...d, showProgressRings: d.showProgressRings ?? true, v: 7 }),
+
+  // v7 -> v8: Done-Roll-up (bisher nur Vererbung nach unten)
+  7: (d) => ({ ...d, doneRollup: d.doneRollup ?? false, v: 8 }),
+
+  // v8 -> v9: Cross-Links (bisher nur der parentId-Baum)
+  8: (d) => ({ ...d, links: d.links ?? [], v: 9 }),
+
+  // v9 -> v10: Layout-Strategie (bisher immer radial)
+  9: (d) => ({ ...d, layoutMode: d.layoutMode ?? DEFAULT_LAYOUT_MODE, v: 10 }),
+
+  // v10 -> v11: Auto-Tidy (bisher nur Handarbeit)
+  10: (d) => ({ ...d, autoTidy: d.autoTidy ?? false, v: 11 }),
+
+  // v11 -> v12: Einrasten (bisher immer frei)
+  11: (d) => ({ ...d, snap: d.snap ?? DEFAULT_SNAP, v: 12 }),
+
+  // v12 -> v13: "von Hand gezogen" separat (bisher galt jeder Offset als gezogen)
+  12: (d) => {
+    const off = isObj(d.nodeOffset) ? d.nodeOffset : {};
+    const moved = (id: unknown) => {
+      const o = typeof id === "string" ? off[id] : undefined;
+      return isObj(o) && (!!o.x || !!o.y);
+    };
+    return {
+      ...d,
+      tasks: Array.isArray(d.tasks)
+        ? d.tasks.map((t) => (isObj(t) && moved(t.id) ? { ...t, placed: true } : t))
+        : d.tasks,
+      v: 13,
+    };
+  },
+};
+
+/* ---------- Validierung ---------- */
+
+const DATA_URL_RE = /^data:[\w.+-]+\/[\w.+-]+(;[\w.+-]+=[^;,]*)*;base64,[A-Za-z0-9+/]*={0,2}$/;
+
+const isFiniteNum = (v: unknown): v is number =>
+  typeof v === "number" && Number.isFinite(v);
+
+const isVec = (v: unknown): v is Vec => isObj(v) && isFiniteNum(v.x) && isFiniteNum(v.y);
+
+const show = (v: unknown) => {
+  const s = JSON.stringify(v);
+  return s === undefined ? String(v) : s.length > 40 ? s.slice(0, 37) + "…" : s;
+};
+
+function validateAttachments(
+  v: unknown,
+  path: string,
+  seenIds: Set<string>,
+  errors: string[]
+) {
+  if (!Array.isArray(v)) {
+    errors.push(`${path}: expected a list of attachments, got ${show(v)}`);
+    return;
+  }
+  v.forEach((a, i) => {
+    const p = `${path}[${i}]`;
+    if (!isObj(a)) return errors.push(`${p}: expected an object, got ${show(a)}`);
+    if (typeof a.id !== "string" || !a.id) errors.push(`${p}.id: missing`);
+    else if (seenIds.has(a.id)) errors.push(`${p}.id: duplicate attachment id "${a.id}"`);
+    else seenIds.add(a.id);
+    if (typeof a.name !== "string") errors.push(`${p}.name: expected a string`);
+    if (typeof a.mime !== "string") errors.push(`${p}.mime: expected a string`);
+    if (typeof a.dataUrl !== "string" || !DATA_URL_RE.test(a.dataUrl))
+      errors.push(`${p}.dataUrl: not a valid base64 data URL`);
+  });
+}
+
+function validateDates(t: Record<string, unknown>, path: string, errors: string[]) {
+  for (const key of ["startDate", "dueDate"] as const)
+    if (t[key] !== undefined && (typeof t[key] !== "string" || !parseISODate(t[key])))
+      errors.push(`${path}.${key}: expected a date like 2025-01-31, got ${show(t[key])}`);
+}
+
+function validateColorMap(v: unknown, path: string, errors: string[]) {
+  if (!isObj(v)) return errors.push(`${path}: expected an object, got ${show(v)}`);
+  for (const [k, c] of Object.entries(v))
+    if (typeof c !== "string") errors.push(`${path}.${k}: expected a color string`);
+}
+
+function validateMembers(v: unknown, errors: string[]): Set<string> {
+  const ids = new Set<string>();
+  if (!Array.isArray(v)) {
+    errors.push(`members: expected a list, got ${show(v)}`);
+    return ids;
+  }
+  v.forEach((m, i) => {
+    const p = `members[${i}]`;
+    if (!isObj(m)) return errors.push(`${p}: expected an object, got ${show(m)}`);
+    if (typeof m.id !== "string" || !m.id) errors.push(`${p}.id: missing`);
+    else if (ids.has(m.id)) errors.push(`${p}.id: duplicate member id "${m.id}"`);
+    else ids.add(m.id);
+    for (const key of ["name", "initials", "color"] as const)
+      if (typeof m[key] !== "string") errors.push(`${p}.${key}: expected a string`);
+  });
+  return ids;
+}
+
+function validateTasks(
+  v: unknown,
+  attachmentIds: Set<string>,
+  memberIds: Set<string>,
+  errors: string[]
+): Set<string> {
+  if (!Array.isArray(v)) {
+    errors.push(`tasks: expected a list, got ${show(v)}`);
+    return new Set();
+  }
+
+  const ids = new Set<string>();
+  v.forEach((t, i) => {
+    const p = `tasks[${i}]`;
+    if (!isObj(t)) return errors.push(`${p}: expected an object, got ${show(t)}`);
+    if (typeof t.id !== "string" || !t.id) errors.push(`${p}.id: missing`);
+    else if (ids.has(t.id)) errors.push(`${p}.id: duplicate task id "${t.id}"`);
+    else ids.add(t.id);
+    if (typeof t.title !== "string") errors.push(`${p}.title: expected a string`);
+    if (t.parentId !== null && typeof t.parentId !== "string")
+      errors.push(`${p}.parentId: expected a task id or null, got ${show(t.parentId)}`);
+    if (t.color !== undefined && typeof t.color !== "string")
+      errors.push(`${p}.color: expected a color string`);
+    if (t.done !== undefined && typeof t.done !== "boolean")
+      errors.push(`${p}.done: expected true/false, got ${show(t.done)}`);
+    if (t.status !== undefined && typeof t.status !== "string")
+      errors.push(`${p}.status: expected a status id`);
+    if (t.notes !== undefined && typeof t.notes !== "string")
+      errors.push(`${p}.notes: expected text`);
+    if (t.collapsed !== undefined && typeof t.collapsed !== "boolean")
+      errors.push(`${p}.collapsed: expected true/false, got ${show(t.collapsed)}`);
+    if (t.locked !== undefined && typeof t.locked !== "boolean")
+      errors.push(`${p}.locked: expected true/false, got ${show(t.locked)}`);
+    if (t.placed !== undefined && typeof t.placed !== "boolean")
+      errors.push(`${p}.placed: expected true/false, got ${show(t.placed)}`);
+    if (
+      t.tags !== undefined &&
+      (!Array.isArray(t.tags) || t.tags.some((tag) => typeof tag !== "string" || !tag.trim()))
+    )
+      errors.push(`${p}.tags: expected a list of non-empty strings, got ${show(t.tags)}`);
+    if (t.estimate !== undefined && (!isFiniteNum(t.estimate) || t.estimate < 0))
+      errors.push(`${p}.estimate: expected a number ≥ 0, got ${show(t.estimate)}`);
+    if (t.duration !== undefined && (!isFiniteNum(t.duration) || t.duration < 0))
+      errors.push(`${p}.duration: expected a number of days ≥ 0, got ${show(t.duration)}`);
+    if (t.assigneeId !== undefined) {
+      if (typeof t.assigneeId !== "string")
+        errors.push(`${p}.assigneeId: expected a member id, got ${show(t.assigneeId)}`);
+      else if (!memberIds.has(t.assigneeId))
+        errors.push(`${p}.assigneeId: member "${t.assigneeId}" does not exist`);
+    }
+    validateDates(t, p, errors);
+    if (t.attachments !== undefined)
+      validateAttachments(t.attachments, `${p}.attachments`, attachmentIds, errors);
+  });
+
+  // Vorgänger: nur bestehende Tasks, nicht der Task selbst (Zyklen meldet die Map)
+  v.forEach((t, i) => {
+    if (!isObj(t) || t.predecessors === undefined) return;
+    const p = `tasks[${i}].predecessors`;
+    if (!Array.isArray(t.predecessors) || t.predecessors.some((x) => typeof x !== "string"))
+      return errors.push(`${p}: expected a list of task ids, got ${show(t.predecessors)}`);
+    for (const pred of t.predecessors as string[]) {
+      if (pred === t.id) errors.push(`${p}: task cannot be its own predecessor`);
+      else if (!ids.has(pred)) errors.push(`${p}: task "${pred}" does not exist`);
+    }
+  });
+
+  // Struktur: hängende Parents + Zyklen
+  const byId = new Map<string, Record<string, unknown>>();
+  for (const t of v)
+    if (isObj(t) && typeof t.id === "string" && !byId.has(t.id)) byId.set(t.id, t);
+
+  // jeder Task wird nur einmal abgelaufen; ein Zyklus fällt beim ersten Weg hinein auf
+  const visited = new Set<string>();
+  v.forEach((t, i) => {
+    if (!isObj(t) || typeof t.parentId !== "string") return;
+    if (!byId.has(t.parentId)) {
+      errors.push(`tasks[${i}].parentId: task "${t.parentId}" does not exist`);
+      return;
+    }
+    const path: string[] = [];
+    let cur: Record<string, unknown> | undefined = t;
+    while (cur && typeof cur.id === "string" && !visited.has(cur.id)) {
+      visited.add(cur.id);
+      path.push(cur.id);
+      const next: Record<string, unknown> | undefined =
+        typeof cur.parentId === "string" ? byId.get(cur.parentId) : undefined;
+      const at = next ? path.indexOf(next.id as string) : -1;
+      if (at >= 0) {
+        const titles = path.slice(at).map((id) => `"${byId.get(id)?.title ?? id}"`);
+        errors.push(`tasks: parent cycle ${titles.join(" → ")} → ${titles[0]}`);
+        break;
+      }
+      cur = next;
+    }
+  });
+
+  return ids;
+}
+
+function validateLinks(v: unknown, taskIds: Set<string>, errors: string[]) {
+  if (!Array.isArray(v)) {
+    errors.push(`links: expected a list, got ${show(v)}`);
+    return;
+  }
+  const ids = new Set<string>();
+  v.forEach((l, i) => {
+    const p = `links[${i}]`;
+    if (!isObj(l)) return errors.push(`${p}: expected an object, got ${show(l)}`);
+    if (typeof l.id !== "string" || !l.id) errors.push(`${p}.id: missing`);
+    else if (ids.has(l.id)) errors.push(`${p}.id: duplicate link id "${l.id}"`);
+    else ids.add(l.id);
+    for (const key of ["from", "to"] as const) {
+      if (typeof l[key] !== "string") errors.push(`${p}.${key}: expected a task id`);
+      else if (!taskIds.has(l[key] as string))
+        errors.push(`${p}.${key}: task "${l[key]}" does not exist`);
+    }
+    if (l.from === l.to) errors.push(`${p}: a task cannot link to itself`);
+    if (!isLinkKind(l.kind))
+      errors.push(`${p}.kind: expected "blocks", "depends" or "relates", got ${show(l.kind)}`);
+  });
+}
+
+function validate(d: RawState): string[] {
+  const errors: string[] = [];
+  const attachmentIds = new Set<string>();
+
+  if (typeof d.projectTitle !== "string")
+    errors.push(`projectTitle: expected a string, got ${show(d.projectTitle)}`);
+  const memberIds = validateMembers(d.members, errors);
+  const taskIds = validateTasks(d.tasks, attachmentIds, memberIds, errors);
+  validateLinks(d.links, taskIds, errors);
+
+  if (!isObj(d.nodeOffset)) errors.push(`nodeOffset: expected an object`);
+  else
+    for (const [k, o] of Object.entries(d.nodeOffset))
+      if (!isVec(o)) errors.push(`nodeOffset.${k}: expected {x, y}, got ${show(o)}`);
+
+  if (!isVec(d.pan)) errors.push(`pan: expected {x, y}, got ${show(d.pan)}`);
+  if (!isFiniteNum(d.scale) || d.scale <= 0)
+    errors.push(`scale: expected a positive number, got ${show(d.scale)}`);
+  if (!isFiniteNum(d.ts)) errors.push(`ts: expected a timestamp, got ${show(d.ts)}`);
+
+  validateColorMap(d.branchColorOverride, "branchColorOverride", errors);
+  validateColorMap(d.branchEdgeColorOverride, "branchEdgeColorOverride", errors);
+  validateColorMap(d.edgeColorOverride, "edgeColorOverride", errors);
+  validateColorMap(d.tagColors, "tagColors", errors);
+  if (typeof d.colorByTags !== "boolean") errors.push(`colorByTags: expected true/false`);
+  if (!isProgressMode(d.progressMode))
+    errors.push(`progressMode: expected "all" or "leaves", got ${show(d.progressMode)}`);
+  if (!isLayoutMode(d.layoutMode))
+    errors.push(
+      `layoutMode: expected one of ${LAYOUT_MODES.map((m) => `"${m.id}"`).join(", ")}, got ${show(d.layoutMode)}`
+    );
+  if (typeof d.autoTidy !== "boolean") errors.push(`autoTidy: expected true/false`);
+  if (!isSnapSettings(d.snap))
+    errors.push(`snap: expected angleStep/radialStep/gridSize from the presets and grid/guides as true/false`);
+  if (typeof d.showProgressRings !== "boolean")
+    errors.push(`showProgressRings: expected true/false`);
+  if (typeof d.doneRollup !== "boolean") errors.push(`doneRollup: expected true/false`);
+  if (typeof d.centerColor !== "string") errors.push(`centerColor: expected a color string`);
+  if (typeof d.centerColorCustomized !== "boolean")
+    errors.push(`centerColorCustomized: expected true/false`);
+
+  validateAttachments(d.centerAttachments, "centerAttachments", attachmentIds, errors);
+
+  if (!isObj(d.center)) errors.push(`center: expected an object, got ${show(d.center)}`);
+  else {
+    if (d.center.done !== undefined && typeof d.center.done !== "boolean")
+      errors.push(`center.done: expected true/false, got ${show(d.center.done)}`);
+    validateDates(d.center, "center", errors);
+    if (d.center.notes !== undefined && typeof d.center.notes !== "string")
+      errors.push(`center.notes: expected text`);
+  }
+
+  if (!isValidStatusColumns(d.statusColumns))
+    errors.push(`statusColumns: expected a non-empty list of {id, title, color}`);
+  else {
+    const seen = new Set<string>();
+    for (const c of d.statusColumns) {
+      if (seen.has(c.id)) errors.push(`statusColumns: duplicate column id "${c.id}"`);
+      seen.add(c.id);
+    }
+  }
+
+  return errors;
+}
+
+/* ---------- Laden ---------- */
+
+export function parseSavedState(raw: unknown): LoadResult {
+  if (!isObj(raw)) return { ok: false, errors: ["File does not contain a TaskMap project."] };
+
+  // Dateien ohne Versionsfeld stammen aus der Zeit vor v1
+  const from = raw.v === undefined ? 1 : raw.v;
+  if (typeof from !== "number" || !Number.isInteger(from) || from < 1)
+    return { ok: false, errors: [`v: unknown file version ${show(raw.v)}`] };
+  if (from > SAVE_FORMAT_VERSION)
+    return {
+      ok: false,
+      errors: [
+        `v: file was saved by a newer version (format v${from}, this app reads up to v${SAVE_FORMAT_VERSION}).`,
+      ],
+    };
+
+  let data: RawState = raw;
+  for (let v = from; v < SAVE_FORMAT_VERSION; v++) data = MIGRATIONS[v](data);
+
+  const errors = validate(data);
+  if (errors.length) return { ok: false, errors };
+  return {
+    ok: true,
+    state: data as unknown as SavedState,
+    migratedFrom: from === SAVE_FORMAT_VERSION ? null : from,
+  };
+}
@@ -0,0 +1,69 @@
+// Datums-Helfer für Start-/Due-Dates (ISO "YYYY-MM-DD", immer lokal interpretiert)
+
+export type DueState = "overdue" | "soon" | null;
+
+// ab wie vielen Tagen vor Fälligkeit "due soon" angezeigt wird
+export const DUE_SOON_DAYS = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function parseISODate(s: string | undefined | null): Date | null {
+  if (!s) return null;
+  const m = /^(\d{4})-(\d{2})-(\d{2})$/.exec(s.trim());
+  if (!m) return null;
+  const [y, mo, day] = [Number(m[1]), Number(m[2]), Number(m[3])];
+  const d = new Date(y, mo - 1, day);
+  // Date rollt über (2025-02-31 -> 3. März): nur echte Kalendertage gelten
+  if (d.getFullYear() !== y || d.getMonth() !== mo - 1 || d.getDate() !== day) return null;
+  return d;
+}
+
+export function toISODate(d: Date): string {
+  const y = d.getFullYear();
+  const m = String(d.getMonth() + 1).padStart(2, "0");
+  const day = String(d.getDate()).padStart(2, "0");
+  return `${y}-${m}-${day}`;
+}
+
+const startOfDay = (d: Date) =>
+  new Date(d.getFullYear(), d.getMonth(), d.getDate());
+
+// ganze Tage von heute bis zum Datum (negativ = vergangen)
+export function daysUntil(iso: string | undefined, now = new Date()): number | null {
+  const d = parseISODate(iso);
+  if (!d) return null;
+  return Math.round((d.getTime() - startOfDay(now).getTime()) / DAY_MS);
+}
+
+// erledigte Tasks bekommen nie einen Due-Badge
+export function computeDueState(
+  dueDate: string | undefined,
+  done: boolean,
+  now = new Date()
+): DueState {
+  if (done) return null;
+  const days = daysUntil(dueDate, now);
+  if (days === null) return null;
+  if (days < 0) return "overdue";
+  if (days <= DUE_SOON_DAYS) return "soon";
+  return null;
+}
+
+export function dueBadgeLabel(dueDate: string | undefined, now = new Date()) {
+  const days = daysUntil(dueDate, now);
+  if (days === null) return "";
+  if (days < 0) return "overdue";
+  if (days === 0) return "today";
+  return `in ${days}d`;
+}
+
+export function addDaysISO(iso: string, days: number): string {
+  const d = parseISODate(iso);
+  if (!d) return iso;
+  d.setDate(d.getDate() + days);
+  return toISODate(d);
+}
+
+export function diffDays(a: Date, b: Date): number {
+  return Math.round((startOfDay(b).getTime() - startOfDay(a).getTime()) / DAY_MS);
+}
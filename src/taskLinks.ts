@@ -0,0 +1,118 @@
+// Querverbindungen zwischen beliebigen Tasks (zusätzlich zum parentId-Baum)
+import type { Task } from "./MapView";
+
+// "blocks": from blockiert to | "depends": from hängt von to ab | "relates": nur Hinweis
+export type LinkKind = "blocks" | "depends" | "relates";
+
+export type TaskLink = {
+  id: string;
+  from: string; // Task.id
+  to: string; // Task.id
+  kind: LinkKind;
+};
+
+export const LINK_KINDS: {
+  id: LinkKind;
+  label: string;
+  color: string;
+  dash?: string;
+  arrow: boolean;
+}[] = [
+  { id: "blocks", label: "Blocks", color: "#ef4444", arrow: true },
+  { id: "depends", label: "Depends on", color: "#f59e0b", dash: "8 6", arrow: true },
+  { id: "relates", label: "Relates to", color: "#64748b", dash: "2 6", arrow: false },
+];
+
+export const linkStyle = (kind: LinkKind) =>
+  LINK_KINDS.find((k) => k.id === kind) ?? LINK_KINDS[0];
+
+export const isLinkKind = (v: unknown): v is LinkKind => LINK_KINDS.some((k) => k.id === v);
+
+export const makeLinkId = () => "l-" + Math.random().toString(36).slice(2, 9);
+
+export const findLink = (links: TaskLink[], a: string, b: string) =>
+  links.find((l) => (l.from === a && l.to === b) || (l.from === b && l.to === a));
+
+// Tasks, von denen id abhängt (blocks: to <- from, depends: from -> to)
+export function dependenciesOf(links: TaskLink[], id: string): string[] {
+  const out: string[] = [];
+  for (const l of links) {
+    if (l.kind === "blocks" && l.to === id) out.push(l.from);
+    if (l.kind === "depends" && l.from === id) out.push(l.to);
+  }
+  return out;
+}
+
+// Done-Sperre: Hinweistext, wenn ids noch offene Abhängigkeiten haben (sonst null).
+// Abhängigkeiten, die im selben Schritt mit erledigt werden, zählen nicht.
+export function dependencyWarning(
+  tasks: Task[],
+  links: TaskLink[],
+  ids: Iterable<string>,
+  isDone: (id: string) => boolean
+): string | null {
+  const marking = new Set(ids);
+  const open = new Set<string>();
+  for (const id of marking)
+    for (const dep of dependenciesOf(links, id))
+      if (!marking.has(dep) && !isDone(dep)) open.add(dep);
+  if (!open.size) return null;
+
+  const titles = [...open].map((id) => `"${tasks.find((t) => t.id === id)?.title || "Untitled"}"`);
+  const shown = titles.slice(0, 5).join(", ") + (titles.length > 5 ? ` and ${titles.length - 5} more` : "");
+  return `Still waiting on ${open.size} open dependenc${open.size === 1 ? "y" : "ies"}: ${shown}.\n\nMark as done anyway?`;
+}
+
+// gelöschte Tasks -> deren Links entfernen
+export const removeLinksFor = (links: TaskLink[], ids: Set<string>) =>
+  links.some((l) => ids.has(l.from) || ids.has(l.to))
+    ? links.filter((l) => !ids.has(l.from) && !ids.has(l.to))
+    : links;
+
+/* ---------- Geometrie (Map + Export) ---------- */
+
+const LINK_GAP = 10; // Abstand zum Kreis (Progress-Ring bleibt frei)
+const LINK_HEAD = 11;
+
+export type LinkGeometry = {
+  x1: number;
+  y1: number;
+  cx: number;
+  cy: number;
+  x2: number;
+  y2: number;
+  head: [number, number][]; // Pfeilspitze (Dreieck) am Ziel
+};
+
+type Circle = { x: number; y: number; r: number };
+
+// Quadratische Kurve, seitlich ausgebogen, damit sie nicht auf Baum-Kanten liegt
+export function linkGeometry(a: Circle, b: Circle): LinkGeometry {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const d = Math.hypot(dx, dy) || 1;
+  const bend = Math.min(90, d * 0.22);
+  const cx = (a.x + b.x) / 2 - (dy / d) * bend;
+  const cy = (a.y + b.y) / 2 + (dx / d) * bend;
+
+  const sa = Math.atan2(cy - a.y, cx - a.x);
+  const ea = Math.atan2(cy - b.y, cx - b.x);
+  const x1 = a.x + Math.cos(sa) * (a.r + LINK_GAP);
+  const y1 = a.y + Math.sin(sa) * (a.r + LINK_GAP);
+  const x2 = b.x + Math.cos(ea) * (b.r + LINK_GAP);
+  const y2 = b.y + Math.sin(ea) * (b.r + LINK_GAP);
+
+  const ang = Math.atan2(y2 - cy, x2 - cx);
+  const head: [number, number][] = [
+    [x2, y2],
+    [x2 - LINK_HEAD * Math.cos(ang - 0.45), y2 - LINK_HEAD * Math.sin(ang - 0.45)],
+    [x2 - LINK_HEAD * Math.cos(ang + 0.45), y2 - LINK_HEAD * Math.sin(ang + 0.45)],
+  ];
+  return { x1, y1, cx, cy, x2, y2, head };
+}
+
+export const linkPath = (g: LinkGeometry, ox = 0, oy = 0) =>
+  `M ${g.x1 + ox} ${g.y1 + oy} Q ${g.cx + ox} ${g.cy + oy} ${g.x2 + ox} ${g.y2 + oy}`;
+
+export const linkHeadPoints = (g: LinkGeometry, ox = 0, oy = 0) =>
+  g.head.map(([x, y]) => `${x + ox},${y + oy}`).join(" ");
@@ -0,0 +1,42 @@
+// Gewichteter Fortschritt: Schätzung pro Task + Roll-up-Modus
+import type { Task } from "./MapView";
+
+// "all": jeder Task zählt mit seinem Gewicht
+// "leaves": nur Blätter zählen, Eltern ergeben sich aus ihren Kindern
+export type ProgressMode = "all" | "leaves";
+
+export const PROGRESS_MODES: { id: ProgressMode; label: string }[] = [
+  { id: "all", label: "All tasks" },
+  { id: "leaves", label: "Leaves only" },
+];
+
+export const DEFAULT_PROGRESS_MODE: ProgressMode = "all";
+
+export const isProgressMode = (v: unknown): v is ProgressMode =>
+  PROGRESS_MODES.some((m) => m.id === v);
+
+// ohne Schätzung zählt ein Task wie bisher mit 1 (0 = zählt nicht, z.B. Meilenstein)
+export const taskWeight = (t: Task) =>
+  typeof t.estimate === "number" && t.estimate >= 0 ? t.estimate : 1;
+
+export type Progress = { done: number; total: number; percent: number };
+
+// subset = zu zählende Tasks (ganze Map oder ein Branch); all = für die Blatt-Erkennung
+export function computeProgress(
+  all: Task[],
+  subset: Task[],
+  isComplete: (t: Task) => boolean,
+  mode: ProgressMode
+): Progress {
+  const parents =
+    mode === "leaves" ? new Set(all.map((t) => t.parentId).filter(Boolean)) : null;
+  let done = 0;
+  let total = 0;
+  for (const t of subset) {
+    if (parents?.has(t.id)) continue;
+    const w = taskWeight(t);
+    total += w;
+    if (isComplete(t)) done += w;
+  }
+  return { done, total, percent: total > 0 ? Math.round((done / total) * 100) : 0 };
+}
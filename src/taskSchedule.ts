@@ -0,0 +1,180 @@
+// Terminplanung: Dauer + Vorgänger pro Task -> Critical Path (CPM)
+import type { Task } from "./MapView";
+import { dependenciesOf, type TaskLink } from "./taskLinks";
+import { collectSubtreeIds, edgeKey } from "./taskTree";
+
+const EPS = 1e-9;
+const MAX_CYCLES = 10;
+
+// ohne Dauer zählt ein Task als Meilenstein (0 Tage)
+export const taskDuration = (t: Task) =>
+  typeof t.duration === "number" && t.duration >= 0 ? t.duration : 0;
+
+export type ScheduleEntry = {
+  es: number; // earliest start (Tage ab Projektstart)
+  ef: number; // earliest finish
+  ls: number; // latest start
+  lf: number; // latest finish
+  slack: number;
+  critical: boolean;
+};
+
+export type Schedule = {
+  entries: Map<string, ScheduleEntry>; // nur Tasks außerhalb von Zyklen
+  end: number; // Projektdauer
+  criticalPath: string[]; // kritische Tasks nach Start sortiert
+  criticalEdges: Map<string, { from: string; to: string }>; // key = edgeKey(vorgänger, nachfolger)
+  cycles: string[][]; // je Zyklus die Task-ids in Abhängigkeits-Reihenfolge
+  blocked: string[]; // offen, aber mit offenem Vorgänger
+};
+
+// Vorgänger = eigene Liste + "blocks"/"depends"-Links (ohne Duplikate)
+export function predecessorsOf(t: Task, links: TaskLink[]): string[] {
+  return [...new Set([...(t.predecessors ?? []), ...dependenciesOf(links, t.id)])].filter(
+    (p) => p !== t.id
+  );
+}
+
+// Vorgänger mit Kindern = ganzer Branch muss fertig sein.
+// Liegt der Task selbst im Branch (Kind hängt vom Eltern-Task ab), zählt nur der Eltern-Task.
+function expandedPredecessors(tasks: Task[], links: TaskLink[], ids: Set<string>) {
+  const preds = new Map<string, Set<string>>();
+  const subtrees = new Map<string, Set<string>>();
+  for (const t of tasks) {
+    const out = new Set<string>();
+    for (const p of predecessorsOf(t, links)) {
+      if (!ids.has(p)) continue;
+      let sub = subtrees.get(p);
+      if (!sub) subtrees.set(p, (sub = collectSubtreeIds(tasks, p)));
+      if (sub.has(t.id)) out.add(p);
+      else sub.forEach((d) => out.add(d));
+    }
+    preds.set(t.id, out);
+  }
+  return preds;
+}
+
+// Zyklen im Rest-Graphen (Kahn konnte diese Tasks nicht einplanen)
+function findCycles(rest: Set<string>, preds: Map<string, Set<string>>): string[][] {
+  const succ = new Map<string, string[]>();
+  for (const id of rest)
+    for (const p of preds.get(id) ?? []) if (rest.has(p)) succ.set(p, [...(succ.get(p) ?? []), id]);
+
+  const state = new Map<string, 1 | 2>(); // 1 = auf dem Stack, 2 = fertig
+  const stack: string[] = [];
+  const seen = new Set<string>();
+  const cycles: string[][] = [];
+
+  const visit = (id: string) => {
+    state.set(id, 1);
+    stack.push(id);
+    for (const n of succ.get(id) ?? []) {
+      if (cycles.length >= MAX_CYCLES) break;
+      if (state.get(n) === 1) {
+        const cycle = stack.slice(stack.indexOf(n));
+        const key = [...cycle].sort().join("|");
+        if (!seen.has(key)) {
+          seen.add(key);
+          cycles.push(cycle);
+        }
+      } else if (!state.has(n)) visit(n);
+    }
+    stack.pop();
+    state.set(id, 2);
+  };
+
+  for (const id of rest) if (!state.has(id) && cycles.length < MAX_CYCLES) visit(id);
+  return cycles;
+}
+
+export function computeSchedule(
+  tasks: Task[],
+  links: TaskLink[],
+  isDone: (id: string) => boolean
+): Schedule {
+  const ids = new Set(tasks.map((t) => t.id));
+  const preds = expandedPredecessors(tasks, links, ids);
+  const duration = new Map(tasks.map((t) => [t.id, taskDuration(t)]));
+
+  // Topologische Reihenfolge (Kahn)
+  const succ = new Map<string, string[]>();
+  const indeg = new Map<string, number>();
+  for (const t of tasks) indeg.set(t.id, preds.get(t.id)!.size);
+  for (const [id, ps] of preds) for (const p of ps) succ.set(p, [...(succ.get(p) ?? []), id]);
+  const order: string[] = [];
+  const queue = tasks.filter((t) => indeg.get(t.id) === 0).map((t) => t.id);
+  while (queue.length) {
+    const id = queue.shift()!;
+    order.push(id);
+    for (const n of succ.get(id) ?? []) {
+      const d = indeg.get(n)! - 1;
+      indeg.set(n, d);
+      if (d === 0) queue.push(n);
+    }
+  }
+  const scheduled = new Set(order);
+  const rest = new Set(tasks.map((t) => t.id).filter((id) => !scheduled.has(id)));
+
+  // Vorwärts: ES/EF
+  const es = new Map<string, number>();
+  const ef = new Map<string, number>();
+  let end = 0;
+  for (const id of order) {
+    let start = 0;
+    for (const p of preds.get(id)!) start = Math.max(start, ef.get(p)!);
+    es.set(id, start);
+    ef.set(id, start + duration.get(id)!);
+    end = Math.max(end, ef.get(id)!);
+  }
+
+  // Rückwärts: LS/LF
+  const entries = new Map<string, ScheduleEntry>();
+  const ls = new Map<string, number>();
+  for (const id of [...order].reverse()) {
+    let lf = end;
+    for (const n of succ.get(id) ?? []) if (ls.has(n)) lf = Math.min(lf, ls.get(n)!);
+    const start = lf - duration.get(id)!;
+    ls.set(id, start);
+    const slack = start - es.get(id)!;
+    entries.set(id, {
+      es: es.get(id)!,
+      ef: ef.get(id)!,
+      ls: start,
+      lf,
+      slack,
+      critical: end > 0 && Math.abs(slack) < EPS,
+    });
+  }
+
+  const criticalEdges = new Map<string, { from: string; to: string }>();
+  for (const [id, ps] of preds) {
+    const e = entries.get(id);
+    if (!e?.critical) continue;
+    for (const p of ps) {
+      const pe = entries.get(p);
+      if (pe?.critical && Math.abs(pe.ef - e.es) < EPS) criticalEdges.set(edgeKey(p, id), { from: p, to: id });
+    }
+  }
+
+  const criticalPath = order
+    .filter((id) => entries.get(id)!.critical)
+    .sort((a, b) => entries.get(a)!.es - entries.get(b)!.es || entries.get(a)!.ef - entries.get(b)!.ef);
+
+  const blocked = tasks
+    .filter((t) => !isDone(t.id) && [...preds.get(t.id)!].some((p) => !isDone(p)))
+    .map((t) => t.id);
+
+  return { entries, end, criticalPath, criticalEdges, cycles: findCycles(rest, preds), blocked };
+}
+
+// gelöschte Tasks -> aus den Vorgänger-Listen entfernen
+export function removePredecessorsFor(tasks: Task[], ids: Set<string>): Task[] {
+  return tasks.map((t) => {
+    if (!t.predecessors?.some((p) => ids.has(p))) return t;
+    const predecessors = t.predecessors.filter((p) => !ids.has(p));
+    return { ...t, predecessors: predecessors.length ? predecessors : undefined };
+  });
+}
+
+// 2.5 -> "2.5d" (eine Nachkommastelle)
+export const formatDays = (n: number) => `${Math.round(n * 10) / 10}d`;
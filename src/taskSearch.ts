@@ -0,0 +1,62 @@
+// Map-Suche: unscharfe Treffer in Titel und Tags, Notes per Teilstring
+import type { Task } from "./MapView";
+
+export type SearchField = "title" | "tag" | "notes";
+
+export type SearchHit = {
+  id: string;
+  field: SearchField; // bester Treffer des Tasks
+  score: number;
+};
+
+// Zeichen der Suche in Reihenfolge im Text (Teilstring > Wortanfänge > Lücken), sonst null
+export function fuzzyScore(query: string, text: string): number | null {
+  const q = query.trim().toLowerCase();
+  const t = text.toLowerCase();
+  if (!q || !t) return null;
+
+  const at = t.indexOf(q);
+  if (at >= 0) return 100 + (at === 0 ? 20 : /\W/.test(t[at - 1]) ? 10 : 0) - at * 0.1;
+
+  let score = 0;
+  let ti = 0;
+  let last = -1;
+  for (const ch of q) {
+    if (ch === " ") continue;
+    const found = t.indexOf(ch, ti);
+    if (found < 0) return null;
+    if (found === last + 1) score += 5; // zusammenhängend
+    if (found === 0 || /\W/.test(t[found - 1])) score += 4; // Wortanfang
+    score -= Math.min(3, found - ti) * 0.5; // Lücke
+    last = found;
+    ti = found + 1;
+  }
+  return score > 0 ? score : null;
+}
+
+export function searchTasks(tasks: Task[], query: string): SearchHit[] {
+  const q = query.trim().toLowerCase();
+  if (!q) return [];
+
+  const hits: SearchHit[] = [];
+  for (const t of tasks) {
+    const candidates: [SearchField, number | null][] = [
+      ["title", fuzzyScore(q, t.title || "")],
+      ...(t.tags ?? []).map((tag): [SearchField, number | null] => {
+        const s = fuzzyScore(q, tag);
+        return ["tag", s === null ? null : s * 0.8];
+      }),
+      // Notes sind lang: unscharf würde fast alles passen
+      ["notes", t.notes?.toLowerCase().includes(q) ? 30 : null],
+    ];
+    let best: SearchHit | null = null;
+    for (const [field, score] of candidates)
+      if (score !== null && (!best || score > best.score)) best = { id: t.id, field, score };
+    if (best) hits.push(best);
+  }
+
+  const titleOf = new Map(tasks.map((t) => [t.id, t.title || ""] as const));
+  return hits.sort(
+    (a, b) => b.score - a.score || titleOf.get(a.id)!.localeCompare(titleOf.get(b.id)!)
+  );
+}
@@ -0,0 +1,122 @@
+// Multi-State Status (Board-Spalten) + Done-Vererbung
+import type { Task } from "./MapView";
+
+export type StatusColumn = {
+  id: string;
+  title: string;
+  color: string;
+  terminal?: boolean; // "fertig"-Spalte: zählt im Progress, setzt done=true
+};
+
+export const DEFAULT_STATUS_COLUMNS: StatusColumn[] = [
+  { id: "todo", title: "To do", color: "#94a3b8" },
+  { id: "in-progress", title: "In progress", color: "#0ea5e9" },
+  { id: "blocked", title: "Blocked", color: "#ef4444" },
+  { id: "done", title: "Done", color: "#22c55e", terminal: true },
+];
+
+export function getTerminalColumn(cols: StatusColumn[]): StatusColumn | undefined {
+  return cols.find((c) => c.terminal) ?? cols[cols.length - 1];
+}
+
+export function getDefaultColumn(cols: StatusColumn[]): StatusColumn | undefined {
+  return cols.find((c) => !c.terminal) ?? cols[0];
+}
+
+// Done-Zustand aller Tasks auf einmal.
+// Abwärts erbt ein Task den nächsten expliziten Wert oberhalb; mit rollup gilt ein
+// Task mit Kindern ohne eigenen Wert als done, sobald alle Kinder done sind.
+// Explizite Werte gewinnen immer.
+export function computeDoneMap(
+  tasks: Task[],
+  rootDone: boolean,
+  rollup: boolean
+): Map<string, boolean> {
+  const byId = new Map(tasks.map((t) => [t.id, t] as const));
+  const kidsOf = new Map<string, Task[]>();
+  for (const t of tasks)
+    if (t.parentId) kidsOf.set(t.parentId, [...(kidsOf.get(t.parentId) ?? []), t]);
+
+  const out = new Map<string, boolean>();
+  // nächster expliziter Wert oberhalb, sonst Projekt-Done
+  const inherited = (t: Task) => {
+    const seen = new Set<string>([t.id]);
+    let cur = t.parentId ? byId.get(t.parentId) : undefined;
+    while (cur && !seen.has(cur.id)) {
+      if (typeof cur.done === "boolean") return cur.done;
+      seen.add(cur.id);
+      cur = cur.parentId ? byId.get(cur.parentId) : undefined;
+    }
+    return rootDone;
+  };
+
+  const visiting = new Set<string>();
+  const resolve = (t: Task): boolean => {
+    const known = out.get(t.id);
+    if (known !== undefined) return known;
+    let value: boolean;
+    if (typeof t.done === "boolean") value = t.done;
+    else {
+      const kids = rollup && !visiting.has(t.id) ? kidsOf.get(t.id) ?? [] : [];
+      visiting.add(t.id);
+      value = kids.length ? kids.every(resolve) : inherited(t);
+      visiting.delete(t.id);
+    }
+    out.set(t.id, value);
+    return value;
+  };
+  tasks.forEach(resolve);
+  return out;
+}
+
+// Roll-up bis zum Center: alle Roots done
+export function rollupCenterDone(tasks: Task[], doneMap: Map<string, boolean>): boolean {
+  const roots = tasks.filter((t) => t.parentId === null);
+  return roots.length > 0 && roots.every((t) => doneMap.get(t.id));
+}
+
+// Tasks ohne (gültigen) Status landen je nach Done-Zustand in Default- bzw. Terminal-Spalte
+export function computeEffectiveStatusId(
+  task: Task,
+  cols: StatusColumn[],
+  effectiveDone: boolean
+): string {
+  if (task.status && cols.some((c) => c.id === task.status)) return task.status;
+  const col = effectiveDone ? getTerminalColumn(cols) : getDefaultColumn(cols);
+  return col?.id ?? "";
+}
+
+export function isTerminalStatus(cols: StatusColumn[], statusId: string) {
+  return getTerminalColumn(cols)?.id === statusId;
+}
+
+// Status setzen hält done synchron (Terminal-Spalte <-> done)
+export function withStatus(task: Task, cols: StatusColumn[], statusId: string): Task {
+  return { ...task, status: statusId, done: isTerminalStatus(cols, statusId) };
+}
+
+// Done setzen hält status synchron
+export function withDone(task: Task, cols: StatusColumn[], done: boolean): Task {
+  if (done) return { ...task, done, status: getTerminalColumn(cols)?.id };
+  const wasTerminal = !!task.status && isTerminalStatus(cols, task.status);
+  return {
+    ...task,
+    done,
+    status: wasTerminal ? getDefaultColumn(cols)?.id : task.status,
+  };
+}
+
+export function isValidStatusColumns(v: unknown): v is StatusColumn[] {
+  return (
+    Array.isArray(v) &&
+    v.length > 0 &&
+    v.every(
+      (c) =>
+        c &&
+        typeof c === "object" &&
+        typeof c.id === "string" &&
+        typeof c.title === "string" &&
+        typeof c.color === "string"
+    )
+  );
+}
@@ -0,0 +1,61 @@
+// Tags/Labels: Normalisierung, Sammeln, Filter, Farben
+import type { Task } from "./MapView";
+
+// Palette für Tags ohne eigene Farbe (stabil über den Tag-Namen gewählt)
+export const TAG_COLORS = [
+  "#0ea5e9",
+  "#a855f7",
+  "#f97316",
+  "#22c55e",
+  "#eab308",
+  "#f43f5e",
+  "#14b8a6",
+  "#6366f1",
+];
+
+// Bubble-Farbe im Tag-Modus für Roots ohne Tag
+export const UNTAGGED_COLOR = "#64748b";
+
+// Tags werden case-insensitiv verglichen; Schlüssel für Filter/Farben ist lowercase
+export const tagKey = (tag: string) => tag.toLowerCase();
+
+export const normalizeTag = (raw: string) =>
+  raw.trim().replace(/^#+/, "").replace(/\s+/g, " ");
+
+export function addTag(tags: string[] | undefined, raw: string): string[] {
+  const tag = normalizeTag(raw);
+  const list = tags ?? [];
+  if (!tag || list.some((t) => tagKey(t) === tagKey(tag))) return list;
+  return [...list, tag];
+}
+
+// alle Tags der Map, erste Schreibweise gewinnt, alphabetisch
+export function collectTags(tasks: Task[]): string[] {
+  const byKey = new Map<string, string>();
+  for (const t of tasks)
+    for (const tag of t.tags ?? []) if (!byKey.has(tagKey(tag))) byKey.set(tagKey(tag), tag);
+  return [...byKey.values()].sort((a, b) => a.localeCompare(b));
+}
+
+// Filter: Task passt, wenn er mindestens einen der gewählten Tags trägt
+export function matchesTagFilter(task: Task | undefined, filter: string[]): boolean {
+  if (!task?.tags?.length) return false;
+  return task.tags.some((t) => filter.includes(tagKey(t)));
+}
+
+export function tagColor(tag: string, tagColors: Record<string, string>): string {
+  const key = tagKey(tag);
+  if (tagColors[key]) return tagColors[key];
+  let h = 0;
+  for (let i = 0; i < key.length; i++) h = (h * 31 + key.charCodeAt(i)) | 0;
+  return TAG_COLORS[Math.abs(h) % TAG_COLORS.length];
+}
+
+// erster Tag bestimmt die Bubble-Farbe
+export function tagBubbleColor(
+  task: Task | undefined,
+  tagColors: Record<string, string>
+): string | undefined {
+  const first = task?.tags?.[0];
+  return first ? tagColor(first, tagColors) : undefined;
+}
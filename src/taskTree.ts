@@ -0,0 +1,46 @@
+// Baum-Helfer über die flache Task-Liste (parentId)
+import type { Task } from "./MapView";
+
+export function isDescendant(
+  tasks: Task[],
+  possibleDescendant: string,
+  possibleAncestor: string
+) {
+  let cur = tasks.find((t) => t.id === possibleDescendant);
+  while (cur && cur.parentId) {
+    if (cur.parentId === possibleAncestor) return true;
+    cur = tasks.find((t) => t.id === cur!.parentId);
+  }
+  return false;
+}
+
+export const collectSubtreeIds = (list: Task[], rootId: string) => {
+  const out = new Set<string>([rootId]);
+  const q = [rootId];
+  while (q.length) {
+    const cur = q.shift()!;
+    for (const t of list)
+      if (t.parentId === cur && !out.has(t.id)) {
+        out.add(t.id);
+        q.push(t.id);
+      }
+  }
+  return out;
+};
+
+// Edge-Key für einzelne Verbindungsstriche (Map-Styling, Critical Path)
+export const edgeKey = (parentId: string, childId: string) => `${parentId}__${childId}`;
+
+// "Root › Parent" (ohne den Task selbst)
+export function parentPathTitles(tasks: Task[], task: Task): string[] {
+  const parts: string[] = [];
+  const seen = new Set<string>([task.id]);
+  let cur = task.parentId ? tasks.find((t) => t.id === task.parentId) : undefined;
+  while (cur && !seen.has(cur.id)) {
+    seen.add(cur.id);
+    parts.unshift(cur.title || "Untitled");
+    const pid = cur.parentId;
+    cur = pid ? tasks.find((t) => t.id === pid) : undefined;
+  }
+  return parts;
+}
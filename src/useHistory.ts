@@ -0,0 +1,107 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+// Änderungen innerhalb dieses Fensters landen im selben Undo-Schritt (Tippen, Drags)
+const COALESCE_MS = 600;
+
+const MAX_STEPS = 200;
+
+type Doc = Record<string, unknown>;
+
+// flacher Vergleich reicht: jedes Feld ist ein State-Wert mit stabiler Identität
+function isSameDoc(a: Doc, b: Doc) {
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every((k) => a[k] === b[k]);
+}
+
+// solange ein Drag läuft (Map, Edit-Liste, Timeline), wird nie ein neuer Schritt begonnen
+const isDragging = () =>
+  document.documentElement.classList.contains("dragging-global");
+
+/**
+ * Snapshot-History über den gesamten Dokument-State.
+ * `doc` wird bei jeder Änderung als neuer Stand erkannt, `apply` schreibt
+ * einen alten Stand zurück in die einzelnen setState-Funktionen.
+ */
+export function useHistory<T extends Doc>(doc: T, apply: (doc: T) => void) {
+  const past = useRef<T[]>([]);
+  const future = useRef<T[]>([]);
+  const current = useRef<T | null>(null);
+  const lastChangeAt = useRef(0);
+  const pendingApply = useRef<T | null>(null);
+  const ignoreNext = useRef(false);
+  const applyRef = useRef(apply);
+  applyRef.current = apply;
+
+  // nur für canUndo/canRedo-Rerender
+  const [, setVersion] = useState(0);
+  const bump = () => setVersion((v) => v + 1);
+
+  useEffect(() => {
+    const prev = current.current;
+    current.current = doc;
+    if (!prev || isSameDoc(prev, doc)) return;
+
+    if (pendingApply.current && isSameDoc(pendingApply.current, doc)) {
+      pendingApply.current = null;
+      return;
+    }
+    if (ignoreNext.current) {
+      ignoreNext.current = false;
+      return;
+    }
+
+    const now = Date.now();
+    const coalesce = now - lastChangeAt.current < COALESCE_MS || isDragging();
+    lastChangeAt.current = now;
+    if (coalesce && past.current.length > 0 && future.current.length === 0) return;
+
+    past.current.push(prev);
+    if (past.current.length > MAX_STEPS) past.current.shift();
+    future.current = [];
+    bump();
+  }, [doc]);
+
+  // reset() gilt nur für den Render, den es selbst auslöst (bump) – ohne Doc-Änderung
+  // (z.B. identische Datei geladen) darf das Flag nicht die nächste echte Änderung schlucken
+  useEffect(() => {
+    ignoreNext.current = false;
+  });
+
+  const undo = useCallback(() => {
+    const target = past.current.pop();
+    if (!target || !current.current) return;
+    future.current.push(current.current);
+    pendingApply.current = target;
+    lastChangeAt.current = 0;
+    applyRef.current(target);
+    bump();
+  }, []);
+
+  const redo = useCallback(() => {
+    const target = future.current.pop();
+    if (!target || !current.current) return;
+    past.current.push(current.current);
+    pendingApply.current = target;
+    lastChangeAt.current = 0;
+    applyRef.current(target);
+    bump();
+  }, []);
+
+  // z.B. nach "Open": komplette History verwerfen, nächster Stand ist die neue Basis
+  const reset = useCallback(() => {
+    past.current = [];
+    future.current = [];
+    pendingApply.current = null;
+    ignoreNext.current = true;
+    lastChangeAt.current = 0;
+    bump();
+  }, []);
+
+  return {
+    undo,
+    redo,
+    reset,
+    canUndo: past.current.length > 0,
+    canRedo: future.current.length > 0,
+  };
+}
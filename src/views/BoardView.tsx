@@ -0,0 +1,296 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import type { Task } from "../MapView";
+import {
+  computeDoneMap,
+  computeEffectiveStatusId,
+  getDefaultColumn,
+  getTerminalColumn,
+  isTerminalStatus,
+  withStatus,
+  type StatusColumn,
+} from "../taskStatus";
+import { parentPathTitles } from "../taskTree";
+import { dependencyWarning, type TaskLink } from "../taskLinks";
+
+type Props = {
+  tasks: Task[];
+  setTasks: React.Dispatch<React.SetStateAction<Task[]>>;
+  statusColumns: StatusColumn[];
+  setStatusColumns: React.Dispatch<React.SetStateAction<StatusColumn[]>>;
+  centerDone: boolean; // Projekt-Done = Basis der Done-Vererbung
+  doneRollup: boolean; // Parent done, wenn alle Kinder done (wie Map)
+  links: TaskLink[]; // Abhängigkeiten sperren "Done" (mit Rückfrage)
+
+  // Remove-Modus (gemeinsam mit Edit + Visualize)
+  removeMode: boolean;
+  removeSelection: Set<string>;
+  onToggleRemoveTarget: (id: string) => void;
+};
+
+/* ---------- Konstanten ---------- */
+const DRAG_THRESHOLD = 6;
+
+// Farben für neue Spalten (rotierend)
+const NEW_COLUMN_COLORS = ["#a855f7", "#f97316", "#eab308", "#14b8a6", "#6366f1"];
+
+const makeColumnId = () => "s-" + Math.random().toString(36).slice(2, 9);
+
+export default function BoardView(props: Props) {
+  const {
+    tasks,
+    setTasks,
+    statusColumns,
+    setStatusColumns,
+    centerDone,
+    doneRollup,
+    links,
+    removeMode,
+    removeSelection,
+    onToggleRemoveTarget,
+  } = props;
+
+  const byId = useMemo(() => new Map(tasks.map((t) => [t.id, t] as const)), [tasks]);
+
+  // Breadcrumb "Root › Parent" für Karten
+  const parentPath = (t: Task) => parentPathTitles(tasks, t).join(" › ");
+
+  const doneMap = useMemo(
+    () => computeDoneMap(tasks, centerDone, doneRollup),
+    [tasks, centerDone, doneRollup]
+  );
+
+  const cardsByColumn = useMemo(() => {
+    const m = new Map<string, Task[]>();
+    for (const c of statusColumns) m.set(c.id, []);
+    for (const t of tasks) {
+      const done = doneMap.get(t.id) ?? centerDone;
+      const sid = computeEffectiveStatusId(t, statusColumns, done);
+      m.get(sid)?.push(t);
+    }
+    return m;
+  }, [tasks, statusColumns, centerDone, doneMap]);
+
+  const moveToColumn = (taskId: string, statusId: string) => {
+    if (isTerminalStatus(statusColumns, statusId) && !doneMap.get(taskId)) {
+      const warn = dependencyWarning(tasks, links, [taskId], (id) => !!doneMap.get(id));
+      if (warn && !confirm(warn)) return;
+    }
+    setTasks((prev) =>
+      prev.map((t) => (t.id === taskId ? withStatus(t, statusColumns, statusId) : t))
+    );
+  };
+
+  /* ---------- Spalten verwalten ---------- */
+  const addColumn = () =>
+    setStatusColumns((prev) => [
+      ...prev.filter((c) => !c.terminal),
+      {
+        id: makeColumnId(),
+        title: "New column",
+        color: NEW_COLUMN_COLORS[prev.length % NEW_COLUMN_COLORS.length],
+      },
+      ...prev.filter((c) => c.terminal),
+    ]);
+
+  const renameColumn = (id: string, title: string) =>
+    setStatusColumns((prev) => prev.map((c) => (c.id === id ? { ...c, title } : c)));
+
+  const setTerminalColumn = (id: string) => {
+    const oldId = getTerminalColumn(statusColumns)?.id;
+    if (oldId === id) return;
+    const next = statusColumns.map((c) => ({ ...c, terminal: c.id === id }));
+    setStatusColumns(next);
+    // done folgt der Spalte: Karten der alten Done-Spalte werden offen, die der neuen done
+    setTasks((prev) =>
+      prev.map((t) =>
+        t.status && (t.status === oldId || t.status === id) ? withStatus(t, next, t.status) : t
+      )
+    );
+  };
+
+  const removeColumn = (id: string) => {
+    if (statusColumns.length <= 1) return;
+    // Done-Spalte nie stillschweigend ersetzen (sonst zählt eine beliebige Spalte als fertig)
+    if (getTerminalColumn(statusColumns)?.id === id) {
+      alert("This is the done column. Make another column the done column before deleting it.");
+      return;
+    }
+    const rest = statusColumns.filter((c) => c.id !== id);
+    // Karten der gelöschten Spalte fallen zurück in die Default-Spalte
+    const fallback = getDefaultColumn(rest)?.id;
+    if (!fallback) return;
+    setStatusColumns(rest);
+    setTasks((prev) => prev.map((t) => (t.status === id ? withStatus(t, rest, fallback) : t)));
+  };
+
+  /* ---------- Card-Drag (Pointer, wie Edit-Liste) ---------- */
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [hoverColumnId, setHoverColumnId] = useState<string | null>(null);
+  const [ghostPos, setGhostPos] = useState<{ x: number; y: number } | null>(null);
+  const gesture = useRef<{
+    pointerId: number;
+    taskId: string;
+    startX: number;
+    startY: number;
+    started: boolean;
+  } | null>(null);
+  const hoverColumnRef = useRef<string | null>(null);
+  // Window-Listener leben länger als ein Render: Drop immer mit aktuellem done/links prüfen
+  const moveToColumnRef = useRef(moveToColumn);
+  moveToColumnRef.current = moveToColumn;
+
+  const onCardPointerDown = (e: React.PointerEvent, taskId: string) => {
+    if (removeMode) return;
+    if (e.pointerType !== "touch" && e.button !== 0) return;
+    gesture.current = {
+      pointerId: e.pointerId,
+      taskId,
+      startX: e.clientX,
+      startY: e.clientY,
+      started: false,
+    };
+  };
+
+  useEffect(() => {
+    const columnAt = (x: number, y: number) => {
+      const el = document.elementFromPoint(x, y) as HTMLElement | null;
+      const col = el?.closest?.(".board-column") as HTMLElement | null;
+      return col?.dataset?.statusId || null;
+    };
+    const onMove = (e: PointerEvent) => {
+      const g = gesture.current;
+      if (!g || e.pointerId !== g.pointerId) return;
+      if (!g.started) {
+        if (Math.hypot(e.clientX - g.startX, e.clientY - g.startY) < DRAG_THRESHOLD)
+          return;
+        g.started = true;
+        setDraggingId(g.taskId);
+        document.documentElement.classList.add("dragging-global");
+      }
+      setGhostPos({ x: e.clientX, y: e.clientY });
+      hoverColumnRef.current = columnAt(e.clientX, e.clientY);
+      setHoverColumnId(hoverColumnRef.current);
+    };
+    const onUp = (e: PointerEvent) => {
+      const g = gesture.current;
+      if (!g || e.pointerId !== g.pointerId) return;
+      gesture.current = null;
+      if (g.started) {
+        const target = hoverColumnRef.current;
+        if (target) moveToColumnRef.current(g.taskId, target);
+        document.documentElement.classList.remove("dragging-global");
+      }
+      hoverColumnRef.current = null;
+      setDraggingId(null);
+      setHoverColumnId(null);
+      setGhostPos(null);
+    };
+    window.addEventListener("pointermove", onMove);
+    window.addEventListener("pointerup", onUp);
+    window.addEventListener("pointercancel", onUp);
+    return () => {
+      window.removeEventListener("pointermove", onMove);
+      window.removeEventListener("pointerup", onUp);
+      window.removeEventListener("pointercancel", onUp);
+    };
+  }, []);
+
+  const draggingTask = draggingId ? byId.get(draggingId) : undefined;
+
+  return (
+    <div className="board">
+      <div className="board-columns">
+        {statusColumns.map((col) => {
+          const cards = cardsByColumn.get(col.id) ?? [];
+          return (
+            <div
+              key={col.id}
+              className={
+                "board-column" +
+                (hoverColumnId === col.id && draggingId ? " board-column-hover" : "")
+              }
+              data-status-id={col.id}
+            >
+              <div className="board-column-head">
+                <span className="board-column-dot" style={{ background: col.color }} />
+                <input
+                  className="board-column-title"
+                  value={col.title}
+                  onChange={(e) => renameColumn(col.id, e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") (e.target as HTMLInputElement).blur();
+                  }}
+                />
+                <span className="board-column-count">{cards.length}</span>
+                <button
+                  className={
+                    "board-column-btn" + (col.terminal ? " board-column-btn-active" : "")
+                  }
+                  title={
+                    col.terminal
+                      ? "Done column (counts towards progress)"
+                      : "Make this the done column"
+                  }
+                  onClick={() => setTerminalColumn(col.id)}
+                >
+                  ✓
+                </button>
+                <button
+                  className="board-column-btn"
+                  title={col.terminal ? "Make another column the done column first" : "Delete column"}
+                  onClick={() => removeColumn(col.id)}
+                  disabled={statusColumns.length <= 1 || col.terminal}
+                >
+                  ✕
+                </button>
+              </div>
+
+              <div className="board-cards">
+                {cards.map((t) => {
+                  const path = parentPath(t);
+                  const isSelectedForRemove = removeMode && removeSelection.has(t.id);
+                  return (
+                    <div
+                      key={t.id}
+                      className={
+                        "board-card" +
+                        (draggingId === t.id ? " board-card-dragging" : "") +
+                        (isSelectedForRemove ? " board-card-remove-selected" : "") +
+                        (removeMode ? " board-card-remove-mode" : "")
+                      }
+                      style={{ borderLeftColor: t.color ?? col.color }}
+                      onPointerDown={(e) => onCardPointerDown(e, t.id)}
+                      onClick={() => {
+                        if (removeMode) onToggleRemoveTarget(t.id);
+                      }}
+                    >
+                      {path && <div className="board-card-path">{path}</div>}
+                      <div className="board-card-title">{t.title || "Untitled"}</div>
+                      {t.dueDate && (
+                        <div className="board-card-meta">Due {t.dueDate}</div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+
+        <button className="board-add-column" onClick={addColumn}>
+          + Add column
+        </button>
+      </div>
+
+      {draggingTask && ghostPos && (
+        <div
+          className="board-card board-card-ghost"
+          style={{ left: ghostPos.x, top: ghostPos.y }}
+          aria-hidden="true"
+        >
+          <div className="board-card-title">{draggingTask.title || "Untitled"}</div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,552 @@
+import React, { useMemo, useState } from "react";
+import type { Task } from "../MapView";
+import {
+  computeDoneMap,
+  computeEffectiveStatusId,
+  isTerminalStatus,
+  withDone,
+  withStatus,
+  type StatusColumn,
+} from "../taskStatus";
+import { collectSubtreeIds, parentPathTitles } from "../taskTree";
+import { dependencyWarning, type TaskLink } from "../taskLinks";
+import { collectTags } from "../taskTags";
+import { findMember, type Member } from "../members";
+import TagEditor from "../TagEditor";
+
+type Props = {
+  tasks: Task[];
+  setTasks: React.Dispatch<React.SetStateAction<Task[]>>;
+  statusColumns: StatusColumn[];
+  centerDone: boolean; // Projekt-Done = Basis der Done-Vererbung
+  doneRollup: boolean; // Parent done, wenn alle Kinder done (wie Map)
+  links: TaskLink[]; // Abhängigkeiten sperren "Done" (mit Rückfrage)
+  members: Member[]; // Zuständigkeit (Team in App)
+  tagColors: Record<string, string>;
+
+  // Root-Farben liegen (wie in der Map) im Branch-Override, nicht am Task
+  branchColorOverride: Record<string, string>;
+  setBranchColorOverride: React.Dispatch<
+    React.SetStateAction<Record<string, string>>
+  >;
+
+  // Remove-Modus (gemeinsam mit Edit + Visualize)
+  removeMode: boolean;
+  removeSelection: Set<string>;
+  onToggleRemoveTarget: (id: string) => void;
+};
+
+type SortKey =
+  | "title"
+  | "path"
+  | "done"
+  | "status"
+  | "color"
+  | "files"
+  | "startDate"
+  | "dueDate"
+  | "tags"
+  | "assignee"
+  | "estimate"
+  | "duration";
+
+type Row = {
+  task: Task;
+  path: string;
+  done: boolean;
+  statusId: string;
+  color: string;
+  files: number;
+  assignee: string; // Name, "" = niemand
+};
+
+const COLUMNS: { key: SortKey; label: string }[] = [
+  { key: "title", label: "Title" },
+  { key: "path", label: "Parent path" },
+  { key: "done", label: "Done" },
+  { key: "status", label: "Status" },
+  { key: "color", label: "Color" },
+  { key: "files", label: "Files" },
+  { key: "startDate", label: "Start" },
+  { key: "dueDate", label: "Due" },
+  { key: "tags", label: "Tags" },
+  { key: "assignee", label: "Assignee" },
+  { key: "estimate", label: "Est." },
+  { key: "duration", label: "Days" },
+];
+
+// leere Zahlenfelder = Feld entfernen; ungültige Eingaben ignorieren
+const parseNonNegative = (value: string): number | undefined | null => {
+  if (value === "") return undefined;
+  const n = Number(value);
+  return Number.isFinite(n) && n >= 0 ? n : null;
+};
+
+const ROOT_PARENT = "__ROOT__";
+
+export default function TableView(props: Props) {
+  const {
+    tasks,
+    setTasks,
+    statusColumns,
+    centerDone,
+    doneRollup,
+    links,
+    members,
+    tagColors,
+    branchColorOverride,
+    setBranchColorOverride,
+    removeMode,
+    removeSelection,
+    onToggleRemoveTarget,
+  } = props;
+
+  const [sort, setSort] = useState<{ key: SortKey; dir: 1 | -1 }>({
+    key: "path",
+    dir: 1,
+  });
+  const [filter, setFilter] = useState("");
+  const [doneFilter, setDoneFilter] = useState<"all" | "open" | "done">("all");
+  const [selected, setSelected] = useState<Set<string>>(() => new Set());
+  const [bulkColor, setBulkColor] = useState("#0ea5e9");
+
+  const colorOf = (t: Task) =>
+    (t.parentId === null ? branchColorOverride[t.id] : t.color) ?? "";
+
+  const doneMap = useMemo(
+    () => computeDoneMap(tasks, centerDone, doneRollup),
+    [tasks, centerDone, doneRollup]
+  );
+
+  const rows = useMemo<Row[]>(
+    () =>
+      tasks.map((t) => {
+        const done = doneMap.get(t.id) ?? centerDone;
+        return {
+          task: t,
+          path: parentPathTitles(tasks, t).join(" › "),
+          done,
+          statusId: computeEffectiveStatusId(t, statusColumns, done),
+          color: colorOf(t),
+          files: t.attachments?.length ?? 0,
+          assignee: findMember(members, t.assigneeId)?.name ?? "",
+        };
+      }),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [tasks, statusColumns, branchColorOverride, centerDone, doneMap, members]
+  );
+
+  const allTags = useMemo(() => collectTags(tasks), [tasks]);
+
+  const visibleRows = useMemo(() => {
+    const q = filter.trim().toLowerCase();
+    const statusIndex = (id: string) => statusColumns.findIndex((c) => c.id === id);
+    const value = (r: Row): string | number => {
+      switch (sort.key) {
+        case "title":
+          return r.task.title.toLowerCase();
+        case "path":
+          // Baum-Reihenfolge: Pfad + Titel
+          return `${r.path} › ${r.task.title}`.toLowerCase();
+        case "done":
+          return r.done ? 1 : 0;
+        case "status":
+          return statusIndex(r.statusId);
+        case "color":
+          return r.color;
+        case "files":
+          return r.files;
+        case "startDate":
+          return r.task.startDate ?? "";
+        case "dueDate":
+          return r.task.dueDate ?? "";
+        case "tags":
+          return (r.task.tags ?? []).join(", ").toLowerCase();
+        case "assignee":
+          return r.assignee.toLowerCase();
+        case "estimate":
+          return r.task.estimate ?? "";
+        case "duration":
+          return r.task.duration ?? "";
+      }
+    };
+    return rows
+      .filter((r) => {
+        if (doneFilter === "open" && r.done) return false;
+        if (doneFilter === "done" && !r.done) return false;
+        if (!q) return true;
+        return (
+          r.task.title.toLowerCase().includes(q) ||
+          r.path.toLowerCase().includes(q) ||
+          !!r.task.tags?.some((tag) => tag.toLowerCase().includes(q)) ||
+          !!r.task.notes?.toLowerCase().includes(q)
+        );
+      })
+      .sort((a, b) => {
+        const va = value(a);
+        const vb = value(b);
+        // leere Werte immer ans Ende
+        if (va === "" && vb !== "") return 1;
+        if (vb === "" && va !== "") return -1;
+        return va < vb ? -sort.dir : va > vb ? sort.dir : 0;
+      });
+  }, [rows, filter, doneFilter, sort, statusColumns]);
+
+  const toggleSort = (key: SortKey) =>
+    setSort((prev) =>
+      prev.key === key ? { key, dir: prev.dir === 1 ? -1 : 1 } : { key, dir: 1 }
+    );
+
+  /* ---------- Auswahl ---------- */
+  const selectedIds = useMemo(
+    () => new Set([...selected].filter((id) => tasks.some((t) => t.id === id))),
+    [selected, tasks]
+  );
+  const allVisibleSelected =
+    visibleRows.length > 0 && visibleRows.every((r) => selectedIds.has(r.task.id));
+
+  const toggleSelected = (id: string) =>
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
+  const toggleSelectAllVisible = () =>
+    setSelected(
+      allVisibleSelected ? new Set() : new Set(visibleRows.map((r) => r.task.id))
+    );
+
+  /* ---------- Inline-Edit ---------- */
+  const patchTask = (id: string, patch: Partial<Task>) =>
+    setTasks((prev) => prev.map((t) => (t.id === id ? { ...t, ...patch } : t)));
+
+  const patchNumber = (id: string, key: "estimate" | "duration", value: string) => {
+    const n = parseNonNegative(value);
+    if (n !== null) patchTask(id, { [key]: n });
+  };
+
+  const setColors = (ids: Set<string>, hex: string | undefined) => {
+    const roots = tasks.filter((t) => ids.has(t.id) && t.parentId === null);
+    if (roots.length)
+      setBranchColorOverride((prev) => {
+        const next = { ...prev };
+        for (const r of roots) {
+          if (hex) next[r.id] = hex;
+          else delete next[r.id];
+        }
+        return next;
+      });
+    setTasks((prev) =>
+      prev.map((t) =>
+        ids.has(t.id) && t.parentId !== null ? { ...t, color: hex } : t
+      )
+    );
+  };
+
+  // offene Abhängigkeiten -> Rückfrage, bevor etwas auf "done" geht
+  const confirmDone = (ids: Set<string>) => {
+    const warn = dependencyWarning(tasks, links, ids, (id) => !!doneMap.get(id));
+    return !warn || confirm(warn);
+  };
+
+  const setDone = (ids: Set<string>, done: boolean) => {
+    if (done && !confirmDone(ids)) return;
+    setTasks((prev) =>
+      prev.map((t) => (ids.has(t.id) ? withDone(t, statusColumns, done) : t))
+    );
+  };
+
+  const setStatus = (ids: Set<string>, statusId: string) => {
+    if (isTerminalStatus(statusColumns, statusId) && !confirmDone(ids)) return;
+    setTasks((prev) =>
+      prev.map((t) => (ids.has(t.id) ? withStatus(t, statusColumns, statusId) : t))
+    );
+  };
+
+  /* ---------- Bulk: Reparent ---------- */
+  // gültige Ziele: nichts aus den Subtrees der Auswahl (sonst Zyklus)
+  const blockedTargets = useMemo(() => {
+    const out = new Set<string>();
+    selectedIds.forEach((id) =>
+      collectSubtreeIds(tasks, id).forEach((x) => out.add(x))
+    );
+    return out;
+  }, [selectedIds, tasks]);
+
+  const reparentSelected = (targetId: string) => {
+    const parentId = targetId === ROOT_PARENT ? null : targetId;
+    if (parentId && blockedTargets.has(parentId)) return;
+    setTasks((prev) =>
+      prev.map((t) => (selectedIds.has(t.id) ? { ...t, parentId } : t))
+    );
+  };
+
+  return (
+    <div className="table-view">
+      <div className="table-toolbar">
+        <input
+          className="table-filter"
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          placeholder="Filter by title, path, tags or notes…"
+        />
+        <select
+          className="table-select"
+          value={doneFilter}
+          onChange={(e) => setDoneFilter(e.target.value as typeof doneFilter)}
+        >
+          <option value="all">All</option>
+          <option value="open">Open</option>
+          <option value="done">Done</option>
+        </select>
+        <span className="table-count">
+          {visibleRows.length} / {tasks.length} tasks
+        </span>
+      </div>
+
+      {selectedIds.size > 0 && (
+        <div className="table-bulkbar">
+          <span className="table-bulk-count">{selectedIds.size} selected</span>
+          <button className="table-bulk-btn" onClick={() => setDone(selectedIds, true)}>
+            Mark done
+          </button>
+          <button className="table-bulk-btn" onClick={() => setDone(selectedIds, false)}>
+            Mark open
+          </button>
+          <select
+            className="table-select"
+            value=""
+            onChange={(e) => e.target.value && setStatus(selectedIds, e.target.value)}
+          >
+            <option value="">Set status…</option>
+            {statusColumns.map((c) => (
+              <option key={c.id} value={c.id}>
+                {c.title}
+              </option>
+            ))}
+          </select>
+          <span className="table-bulk-color">
+            <input
+              type="color"
+              value={bulkColor}
+              onChange={(e) => setBulkColor(e.target.value)}
+              aria-label="Bulk color"
+            />
+            <button
+              className="table-bulk-btn"
+              onClick={() => setColors(selectedIds, bulkColor)}
+            >
+              Set color
+            </button>
+            <button
+              className="table-bulk-btn"
+              onClick={() => setColors(selectedIds, undefined)}
+            >
+              Reset color
+            </button>
+          </span>
+          <select
+            className="table-select"
+            value=""
+            onChange={(e) => e.target.value && reparentSelected(e.target.value)}
+          >
+            <option value="">Move under…</option>
+            <option value={ROOT_PARENT}>(top level)</option>
+            {tasks
+              .filter((t) => !blockedTargets.has(t.id))
+              .map((t) => (
+                <option key={t.id} value={t.id}>
+                  {[...parentPathTitles(tasks, t), t.title || "Untitled"].join(" › ")}
+                </option>
+              ))}
+          </select>
+          <button className="table-bulk-btn" onClick={() => setSelected(new Set())}>
+            Clear
+          </button>
+        </div>
+      )}
+
+      <div className="table-scroll">
+        <table className="task-table">
+          <thead>
+            <tr>
+              <th className="task-table-check">
+                <input
+                  type="checkbox"
+                  checked={allVisibleSelected}
+                  onChange={toggleSelectAllVisible}
+                  aria-label="Select all"
+                />
+              </th>
+              {COLUMNS.map((c) => (
+                <th key={c.key} onClick={() => toggleSort(c.key)}>
+                  {c.label}
+                  {sort.key === c.key && (
+                    <span className="task-table-sort">{sort.dir === 1 ? "▲" : "▼"}</span>
+                  )}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {visibleRows.map((r) => {
+              const t = r.task;
+              const isSelectedForRemove = removeMode && removeSelection.has(t.id);
+              return (
+                <tr
+                  key={t.id}
+                  className={
+                    (selectedIds.has(t.id) ? "task-table-selected" : "") +
+                    (isSelectedForRemove ? " task-table-remove-selected" : "")
+                  }
+                  onClick={() => {
+                    if (removeMode) onToggleRemoveTarget(t.id);
+                  }}
+                >
+                  <td className="task-table-check">
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.has(t.id)}
+                      onChange={() => toggleSelected(t.id)}
+                      onClick={(e) => e.stopPropagation()}
+                    />
+                  </td>
+                  <td>
+                    <input
+                      className="task-table-input"
+                      value={t.title}
+                      onChange={(e) => patchTask(t.id, { title: e.target.value })}
+                      readOnly={removeMode}
+                      placeholder="Task title…"
+                    />
+                  </td>
+                  <td className="task-table-path">{r.path || "—"}</td>
+                  <td>
+                    <input
+                      type="checkbox"
+                      checked={r.done}
+                      onChange={() => setDone(new Set([t.id]), !r.done)}
+                      disabled={removeMode}
+                      className={typeof t.done === "boolean" ? "" : "task-table-inherited"}
+                      title={typeof t.done === "boolean" ? "Explicit" : "Inherited"}
+                    />
+                  </td>
+                  <td>
+                    <select
+                      className="table-select"
+                      value={r.statusId}
+                      onChange={(e) => setStatus(new Set([t.id]), e.target.value)}
+                      disabled={removeMode}
+                    >
+                      {statusColumns.map((c) => (
+                        <option key={c.id} value={c.id}>
+                          {c.title}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  <td>
+                    <span className="task-table-color">
+                      <input
+                        type="color"
+                        value={r.color || "#ffffff"}
+                        onChange={(e) => setColors(new Set([t.id]), e.target.value)}
+                        disabled={removeMode}
+                        aria-label="Color"
+                      />
+                      {r.color ? (
+                        <button
+                          className="task-table-clear"
+                          onClick={() => setColors(new Set([t.id]), undefined)}
+                          aria-label="Reset color"
+                        >
+                          ✕
+                        </button>
+                      ) : (
+                        <span className="task-table-auto">auto</span>
+                      )}
+                    </span>
+                  </td>
+                  <td className="task-table-num">{r.files}</td>
+                  <td>
+                    <input
+                      type="date"
+                      className="task-date-input"
+                      value={t.startDate ?? ""}
+                      onChange={(e) =>
+                        patchTask(t.id, { startDate: e.target.value || undefined })
+                      }
+                      disabled={removeMode}
+                    />
+                  </td>
+                  <td>
+                    <input
+                      type="date"
+                      className="task-date-input"
+                      value={t.dueDate ?? ""}
+                      onChange={(e) =>
+                        patchTask(t.id, { dueDate: e.target.value || undefined })
+                      }
+                      disabled={removeMode}
+                    />
+                  </td>
+                  <td className="task-table-tags">
+                    <TagEditor
+                      tags={t.tags ?? []}
+                      onChange={(tags) => patchTask(t.id, { tags: tags.length ? tags : undefined })}
+                      suggestions={allTags}
+                      tagColors={tagColors}
+                      disabled={removeMode}
+                      placeholder="Tags…"
+                    />
+                  </td>
+                  <td>
+                    <select
+                      className="table-select"
+                      value={findMember(members, t.assigneeId)?.id ?? ""}
+                      onChange={(e) => patchTask(t.id, { assigneeId: e.target.value || undefined })}
+                      disabled={removeMode}
+                    >
+                      <option value="">—</option>
+                      {members.map((m) => (
+                        <option key={m.id} value={m.id}>
+                          {m.name}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  <td>
+                    <input
+                      type="number"
+                      className="task-table-input task-table-numInput"
+                      min={0}
+                      step="any"
+                      value={t.estimate ?? ""}
+                      placeholder="1"
+                      onChange={(e) => patchNumber(t.id, "estimate", e.target.value)}
+                      readOnly={removeMode}
+                    />
+                  </td>
+                  <td>
+                    <input
+                      type="number"
+                      className="task-table-input task-table-numInput"
+                      min={0}
+                      step="any"
+                      value={t.duration ?? ""}
+                      placeholder="0"
+                      onChange={(e) => patchNumber(t.id, "duration", e.target.value)}
+                      readOnly={removeMode}
+                    />
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,413 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import type { Task } from "../MapView";
+import {
+  addDaysISO,
+  diffDays,
+  parseISODate,
+  toISODate,
+} from "../taskDates";
+import { computeDoneMap } from "../taskStatus";
+
+type Props = {
+  tasks: Task[];
+  setTasks: React.Dispatch<React.SetStateAction<Task[]>>;
+  centerDone: boolean; // Projekt-Done = Basis der Done-Vererbung
+  doneRollup: boolean; // Parent done, wenn alle Kinder done (wie Map)
+
+  // Remove-Modus (gemeinsam mit Edit + Visualize)
+  removeMode: boolean;
+  removeSelection: Set<string>;
+  onToggleRemoveTarget: (id: string) => void;
+};
+
+/* ---------- Konstanten ---------- */
+const DAY_PX = 28;
+const ROW_H = 36;
+
+// Puffer links/rechts vom frühesten/spätesten Datum
+const PAD_DAYS_BEFORE = 3;
+const PAD_DAYS_AFTER = 14;
+
+// ohne Datumswerte: Fenster um "heute"
+const EMPTY_DAYS_BEFORE = 7;
+const EMPTY_DAYS_AFTER = 30;
+
+type Span = { start: Date; end: Date };
+
+type DragState = {
+  pointerId: number;
+  startX: number;
+  mode: "move" | "resize-start" | "resize-end";
+  // Ausgangswerte aller betroffenen Tasks (Parent-Drag verschiebt ganzen Subtree)
+  origin: Record<string, { startDate?: string; dueDate?: string }>;
+  lastDelta: number;
+};
+
+/* ---------- Helpers ---------- */
+function ownSpan(t: Task): Span | null {
+  const s = parseISODate(t.startDate);
+  const e = parseISODate(t.dueDate);
+  if (s && e) return s <= e ? { start: s, end: e } : { start: e, end: s };
+  if (s) return { start: s, end: s };
+  if (e) return { start: e, end: e };
+  return null;
+}
+
+function unionSpan(a: Span | null, b: Span | null): Span | null {
+  if (!a) return b;
+  if (!b) return a;
+  return {
+    start: a.start < b.start ? a.start : b.start,
+    end: a.end > b.end ? a.end : b.end,
+  };
+}
+
+const MONTHS = [
+  "Jan",
+  "Feb",
+  "Mar",
+  "Apr",
+  "May",
+  "Jun",
+  "Jul",
+  "Aug",
+  "Sep",
+  "Oct",
+  "Nov",
+  "Dec",
+];
+
+export default function TimelineView(props: Props) {
+  const {
+    tasks,
+    setTasks,
+    centerDone,
+    doneRollup,
+    removeMode,
+    removeSelection,
+    onToggleRemoveTarget,
+  } = props;
+
+  const doneMap = useMemo(
+    () => computeDoneMap(tasks, centerDone, doneRollup),
+    [tasks, centerDone, doneRollup]
+  );
+
+  const [collapsed, setCollapsed] = useState<Set<string>>(() => new Set());
+
+  const childrenByParent = useMemo(() => {
+    const m = new Map<string | null, Task[]>();
+    for (const t of tasks) {
+      const arr = m.get(t.parentId) || [];
+      arr.push(t);
+      m.set(t.parentId, arr);
+    }
+    return m;
+  }, [tasks]);
+
+  // Span je Task inkl. aller Nachfahren (Parent-Bars umfassen ihre Kinder)
+  const spans = useMemo(() => {
+    const out = new Map<string, Span | null>();
+    const rec = (t: Task, seen: Set<string>): Span | null => {
+      if (out.has(t.id)) return out.get(t.id)!;
+      if (seen.has(t.id)) return null;
+      seen.add(t.id);
+      let span = ownSpan(t);
+      for (const c of childrenByParent.get(t.id) || [])
+        span = unionSpan(span, rec(c, seen));
+      out.set(t.id, span);
+      return span;
+    };
+    for (const t of tasks) rec(t, new Set());
+    return out;
+  }, [tasks, childrenByParent]);
+
+  // sichtbare Zeilen in Baum-Reihenfolge (wie Edit-Row-Rekursion)
+  const rows = useMemo(() => {
+    const out: { task: Task; depth: number; hasChildren: boolean }[] = [];
+    const walk = (parentId: string | null, depth: number) => {
+      for (const t of childrenByParent.get(parentId) || []) {
+        const kids = childrenByParent.get(t.id) || [];
+        out.push({ task: t, depth, hasChildren: kids.length > 0 });
+        if (!collapsed.has(t.id)) walk(t.id, depth + 1);
+      }
+    };
+    walk(null, 0);
+    return out;
+  }, [childrenByParent, collapsed]);
+
+  const today = useMemo(() => {
+    const d = new Date();
+    return new Date(d.getFullYear(), d.getMonth(), d.getDate());
+  }, []);
+
+  const range = useMemo(() => {
+    let all: Span | null = null;
+    for (const t of tasks) all = unionSpan(all, ownSpan(t));
+    const start = new Date(all ? all.start : today);
+    const end = new Date(all ? all.end : today);
+    start.setDate(start.getDate() - (all ? PAD_DAYS_BEFORE : EMPTY_DAYS_BEFORE));
+    end.setDate(end.getDate() + (all ? PAD_DAYS_AFTER : EMPTY_DAYS_AFTER));
+    return { start, days: diffDays(start, end) + 1 };
+  }, [tasks, today]);
+
+  const days = useMemo(() => {
+    const out: Date[] = [];
+    for (let i = 0; i < range.days; i++) {
+      const d = new Date(range.start);
+      d.setDate(d.getDate() + i);
+      out.push(d);
+    }
+    return out;
+  }, [range]);
+
+  const dayToX = (d: Date) => diffDays(range.start, d) * DAY_PX;
+
+  const toggleCollapsed = (id: string) =>
+    setCollapsed((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
+  const collectSubtree = (rootId: string) => {
+    const out = [rootId];
+    for (let i = 0; i < out.length; i++)
+      for (const c of childrenByParent.get(out[i]) || []) out.push(c.id);
+    return out;
+  };
+
+  /* ---------- Drag-to-reschedule ---------- */
+  const drag = useRef<DragState | null>(null);
+
+  const startBarDrag = (
+    e: React.PointerEvent,
+    task: Task,
+    mode: DragState["mode"]
+  ) => {
+    if (removeMode) return;
+    if (e.pointerType !== "touch" && e.button !== 0) return;
+    e.stopPropagation();
+    e.preventDefault();
+
+    // Move nimmt den ganzen Subtree mit, damit Kinder in der Parent-Bar bleiben
+    const ids = mode === "move" ? collectSubtree(task.id) : [task.id];
+    const origin: DragState["origin"] = {};
+    for (const t of tasks)
+      if (ids.includes(t.id))
+        origin[t.id] = { startDate: t.startDate, dueDate: t.dueDate };
+
+    drag.current = {
+      pointerId: e.pointerId,
+      startX: e.clientX,
+      mode,
+      origin,
+      lastDelta: 0,
+    };
+    (e.target as HTMLElement).setPointerCapture?.(e.pointerId);
+    document.documentElement.classList.add("dragging-global");
+  };
+
+  useEffect(() => {
+    const onMove = (e: PointerEvent) => {
+      const d = drag.current;
+      if (!d || e.pointerId !== d.pointerId) return;
+      const delta = Math.round((e.clientX - d.startX) / DAY_PX);
+      if (delta === d.lastDelta) return;
+      d.lastDelta = delta;
+
+      setTasks((prev) =>
+        prev.map((t) => {
+          const o = d.origin[t.id];
+          if (!o) return t;
+          if (d.mode === "move") {
+            return {
+              ...t,
+              startDate: o.startDate ? addDaysISO(o.startDate, delta) : o.startDate,
+              dueDate: o.dueDate ? addDaysISO(o.dueDate, delta) : o.dueDate,
+            };
+          }
+          // Resize: fehlendes Gegenstück = Ein-Tages-Bar, nie über das andere Ende hinaus
+          const s = o.startDate ?? o.dueDate;
+          const en = o.dueDate ?? o.startDate;
+          if (!s || !en) return t;
+          if (d.mode === "resize-start") {
+            const next = addDaysISO(s, delta);
+            return { ...t, startDate: next > en ? en : next, dueDate: en };
+          }
+          const next = addDaysISO(en, delta);
+          return { ...t, startDate: s, dueDate: next < s ? s : next };
+        })
+      );
+    };
+    const onUp = (e: PointerEvent) => {
+      const d = drag.current;
+      if (!d || e.pointerId !== d.pointerId) return;
+      drag.current = null;
+      document.documentElement.classList.remove("dragging-global");
+    };
+    window.addEventListener("pointermove", onMove);
+    window.addEventListener("pointerup", onUp);
+    window.addEventListener("pointercancel", onUp);
+    return () => {
+      window.removeEventListener("pointermove", onMove);
+      window.removeEventListener("pointerup", onUp);
+      window.removeEventListener("pointercancel", onUp);
+    };
+  }, [setTasks]);
+
+  // Klick in leere Zeile: Ein-Tages-Bar an dieser Stelle anlegen
+  const scheduleAt = (e: React.MouseEvent<HTMLDivElement>, task: Task) => {
+    if (removeMode) return;
+    if (ownSpan(task)) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const idx = Math.floor((e.clientX - rect.left) / DAY_PX);
+    const d = new Date(range.start);
+    d.setDate(d.getDate() + idx);
+    const iso = toISODate(d);
+    setTasks((prev) =>
+      prev.map((t) =>
+        t.id === task.id ? { ...t, startDate: iso, dueDate: iso } : t
+      )
+    );
+  };
+
+  const trackWidth = range.days * DAY_PX;
+  const todayX = dayToX(today);
+
+  return (
+    <div className="timeline">
+      {tasks.length === 0 ? (
+        <div className="timeline-empty">
+          No tasks yet. Use “Add Task” to get started.
+        </div>
+      ) : (
+        <div className="timeline-grid" style={{ ["--tl-day" as string]: `${DAY_PX}px` }}>
+          {/* Linke Spalte: Baum */}
+          <div className="timeline-labels">
+            <div className="timeline-head timeline-head-labels">Task</div>
+            {rows.map(({ task, depth, hasChildren }) => {
+              const isSelectedForRemove =
+                removeMode && removeSelection.has(task.id);
+              return (
+                <div
+                  key={task.id}
+                  className={
+                    "timeline-label" +
+                    (isSelectedForRemove ? " timeline-label-remove-selected" : "") +
+                    (removeMode ? " timeline-label-remove-mode" : "")
+                  }
+                  style={{ height: ROW_H, paddingLeft: 10 + depth * 18 }}
+                  onClick={() => {
+                    if (removeMode) onToggleRemoveTarget(task.id);
+                  }}
+                >
+                  {hasChildren ? (
+                    <button
+                      className="timeline-toggle"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        toggleCollapsed(task.id);
+                      }}
+                      aria-label={collapsed.has(task.id) ? "Expand" : "Collapse"}
+                    >
+                      {collapsed.has(task.id) ? "▸" : "▾"}
+                    </button>
+                  ) : (
+                    <span className="timeline-toggle-spacer" />
+                  )}
+                  <span className="timeline-label-text">
+                    {task.title || "Untitled"}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+
+          {/* Rechte Seite: Zeitachse */}
+          <div className="timeline-scroll">
+            <div style={{ width: trackWidth, position: "relative" }}>
+              <div className="timeline-head timeline-head-days">
+                {days.map((d, i) => (
+                  <div
+                    key={i}
+                    className={
+                      "timeline-day" +
+                      (d.getDay() === 0 || d.getDay() === 6
+                        ? " timeline-day-weekend"
+                        : "")
+                    }
+                    style={{ width: DAY_PX }}
+                  >
+                    {(d.getDate() === 1 || i === 0) && (
+                      <span className="timeline-month">
+                        {MONTHS[d.getMonth()]}
+                      </span>
+                    )}
+                    <span className="timeline-daynum">{d.getDate()}</span>
+                  </div>
+                ))}
+              </div>
+
+              {rows.map(({ task, hasChildren }) => {
+                const own = ownSpan(task);
+                const span = spans.get(task.id) ?? null;
+                const summary = hasChildren && span;
+                return (
+                  <div
+                    key={task.id}
+                    className="timeline-track"
+                    style={{ height: ROW_H }}
+                    onClick={(e) => scheduleAt(e, task)}
+                  >
+                    {summary && (
+                      <div
+                        className="timeline-summary"
+                        style={{
+                          left: dayToX(span.start),
+                          width: (diffDays(span.start, span.end) + 1) * DAY_PX,
+                        }}
+                        onPointerDown={(e) => startBarDrag(e, task, "move")}
+                        onClick={(e) => e.stopPropagation()}
+                        title="Drag to move the whole branch"
+                      />
+                    )}
+                    {own && (
+                      <div
+                        className={
+                          "timeline-bar" +
+                          ((doneMap.get(task.id) ?? centerDone) ? " timeline-bar-done" : "")
+                        }
+                        style={{
+                          left: dayToX(own.start),
+                          width: (diffDays(own.start, own.end) + 1) * DAY_PX,
+                          background: task.color,
+                        }}
+                        onPointerDown={(e) => startBarDrag(e, task, "move")}
+                        onClick={(e) => e.stopPropagation()}
+                        title={`${task.startDate ?? "–"} → ${task.dueDate ?? "–"}`}
+                      >
+                        <span
+                          className="timeline-bar-handle timeline-bar-handle-start"
+                          onPointerDown={(e) => startBarDrag(e, task, "resize-start")}
+                        />
+                        <span className="timeline-bar-text">{task.title}</span>
+                        <span
+                          className="timeline-bar-handle timeline-bar-handle-end"
+                          onPointerDown={(e) => startBarDrag(e, task, "resize-end")}
+                        />
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+
+              <div className="timeline-today" style={{ left: todayX + DAY_PX / 2 }} />
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}